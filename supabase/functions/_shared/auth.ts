@@ -0,0 +1,184 @@
+import { AppError, errorResponse, requestIdFor } from "./errors.ts";
+import { BucketPolicy, createRateLimitStore, RateLimitResult, RateLimitStore } from "./ratelimit.ts";
+import { getServiceClient } from "./supabase.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AuthContext {
+    // Supabase user id; null for anonymous callers
+    userId: string | null;
+    anonymous: boolean;
+    // Client address the IP bucket is keyed on
+    ip: string;
+    // Logged with every error and echoed in X-Request-Id
+    requestId: string;
+}
+
+/**
+ * Resolve a user JWT to its user id, or null when the token is invalid or expired
+ */
+export type TokenVerifier = (token: string) => Promise<string | null>;
+
+export interface AuthOptions {
+    // Headers added to error responses (the function's CORS headers)
+    headers?: Record<string, string>;
+    // Accept callers without a user session (anon key or no token)
+    allowAnonymous?: boolean;
+    // Per signed-in user
+    userLimit?: BucketPolicy;
+    // Per IP for anonymous callers; stricter than the user limit
+    anonymousLimit?: BucketPolicy;
+    // Per IP for every caller, so one address can't rotate accounts
+    ipLimit?: BucketPolicy;
+    store?: RateLimitStore;
+    verifyToken?: TokenVerifier;
+}
+
+export type AuthedHandler = (req: Request, auth: AuthContext) => Response | Promise<Response>;
+
+// purge_rate_limit_buckets drops buckets idle an hour, so keep full refills under that
+export const DEFAULT_USER_LIMIT: BucketPolicy = { capacity: 60, refillPerSecond: 1 };
+export const DEFAULT_ANONYMOUS_LIMIT: BucketPolicy = { capacity: 10, refillPerSecond: 10 / 60 };
+export const DEFAULT_IP_LIMIT: BucketPolicy = { capacity: 120, refillPerSecond: 2 };
+
+// ============================================================================
+// Tokens
+// ============================================================================
+
+/**
+ * Claims of a JWT without checking its signature. Only used to tell the anon
+ * key apart from user sessions: claiming "anon" grants nothing beyond the
+ * anonymous quota, and every other token is verified.
+ */
+function decodeJwtPayload(token: string): Record<string, unknown> | null {
+    const payload = token.split(".")[1];
+    if (!payload) return null;
+    try {
+        const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+        const json = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+        const claims = JSON.parse(json);
+        return claims && typeof claims === "object" ? claims : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Ask Supabase Auth who the token belongs to; this also rejects revoked sessions
+ */
+async function verifySupabaseToken(token: string): Promise<string | null> {
+    const client = getServiceClient();
+    if (!client) {
+        throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required to verify user tokens");
+    }
+    const { data, error } = await client.auth.getUser(token);
+    if (error || !data.user) return null;
+    return data.user.id;
+}
+
+function bearerToken(req: Request): string | null {
+    const header = req.headers.get("authorization") || "";
+    const match = header.match(/^Bearer\s+(\S+)$/i);
+    return match ? match[1] : null;
+}
+
+/**
+ * The caller's address as our edge saw it: Cloudflare's CF-Connecting-IP, else
+ * the last X-Forwarded-For hop, which the gateway appends. Earlier hops come
+ * from the caller and could be rotated to dodge the per-IP limits.
+ */
+export function clientIp(req: Request): string {
+    const forwarded = req.headers.get("x-forwarded-for")?.split(",").pop()?.trim();
+    return req.headers.get("cf-connecting-ip")?.trim() || forwarded || req.headers.get("x-real-ip") || "unknown";
+}
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+function allowAnonymousByDefault(): boolean {
+    return Deno.env.get("AUTH_ALLOW_ANONYMOUS") !== "false";
+}
+
+/**
+ * Verify the caller and charge its rate-limit buckets before running the
+ * handler. CORS preflights pass straight through. Invalid sessions get 401,
+ * exhausted buckets 429 with Retry-After; every response carries X-Request-Id.
+ */
+export function withAuth(handler: AuthedHandler, options: AuthOptions = {}): (req: Request) => Promise<Response> {
+    const {
+        headers = {},
+        allowAnonymous = allowAnonymousByDefault(),
+        userLimit = DEFAULT_USER_LIMIT,
+        anonymousLimit = DEFAULT_ANONYMOUS_LIMIT,
+        ipLimit = DEFAULT_IP_LIMIT,
+        verifyToken = verifySupabaseToken,
+    } = options;
+    // Created lazily so importing a function doesn't need service credentials
+    let store = options.store;
+
+    return async (req: Request) => {
+        const requestId = requestIdFor(req);
+        if (req.method === "OPTIONS") {
+            return await handler(req, { userId: null, anonymous: true, ip: "", requestId });
+        }
+
+        const ip = clientIp(req);
+        const token = bearerToken(req);
+        let userId: string | null = null;
+
+        if (token) {
+            const claims = decodeJwtPayload(token);
+            if (!claims) {
+                return errorResponse(new AppError("unauthorized", "Malformed authorization token"), requestId, headers);
+            }
+
+            if (claims.role !== "anon") {
+                try {
+                    userId = await verifyToken(token);
+                } catch (e) {
+                    console.error(`[${requestId}] Token verification failed:`, e);
+                    return errorResponse(new AppError("config_error", "Authentication is not available"), requestId, headers);
+                }
+                if (!userId) {
+                    return errorResponse(new AppError("unauthorized", "Invalid or expired session"), requestId, headers);
+                }
+            }
+        }
+
+        if (!userId && !allowAnonymous) {
+            return errorResponse(new AppError("unauthorized", "Sign in required"), requestId, headers);
+        }
+
+        store ??= createRateLimitStore();
+        const checks: Promise<RateLimitResult>[] = [store.consume(`ip:${ip}`, ipLimit)];
+        checks.push(
+            userId
+                ? store.consume(`user:${userId}`, userLimit)
+                : store.consume(`anon:${ip}`, anonymousLimit)
+        );
+        const results = await Promise.all(checks);
+
+        const denied = results.filter((result) => !result.allowed);
+        if (denied.length > 0) {
+            const retryAfter = Math.max(1, Math.ceil(Math.max(...denied.map((r) => r.retryAfterSeconds))));
+            return errorResponse(
+                new AppError("rate_limited", "Too many requests, please retry later", undefined, {
+                    "Retry-After": retryAfter.toString(),
+                }),
+                requestId,
+                headers
+            );
+        }
+
+        const response = await handler(req, { userId, anonymous: !userId, ip, requestId });
+        response.headers.set("X-Request-Id", requestId);
+        response.headers.set(
+            "X-RateLimit-Remaining",
+            Math.min(...results.map((result) => result.remaining)).toString()
+        );
+        return response;
+    };
+}
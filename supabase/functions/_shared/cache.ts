@@ -0,0 +1,216 @@
+import { getServiceClient } from "./supabase.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CacheStatus = "HIT" | "MISS" | "STALE";
+
+export interface CacheEntry<T = unknown> {
+    value: T;
+    storedAt: number;
+    freshUntil: number;
+    staleUntil: number;
+}
+
+export interface CachePolicy {
+    // Seconds an entry is served as a HIT
+    ttl: number;
+    // Extra seconds an expired entry may still be served (STALE) while it is refreshed
+    staleWhileRevalidate: number;
+}
+
+/**
+ * Storage backend for cached responses
+ */
+export interface CacheStore {
+    get<T>(key: string): Promise<CacheEntry<T> | null>;
+    set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * Process-local store, used in tests and when no database is configured.
+ * Holds at most `maxEntries`, evicting the least recently used.
+ */
+export class MemoryCacheStore implements CacheStore {
+    private entries = new Map<string, CacheEntry>();
+
+    constructor(private maxEntries = 500) {}
+
+    get<T>(key: string): Promise<CacheEntry<T> | null> {
+        const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+        if (!entry) return Promise.resolve(null);
+        if (entry.staleUntil <= Date.now()) {
+            this.entries.delete(key);
+            return Promise.resolve(null);
+        }
+        // Re-insert so Map order tracks recency
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return Promise.resolve(entry);
+    }
+
+    set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+        // Re-insert so Map order tracks recency, then evict the least recently used
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest === undefined) break;
+            this.entries.delete(oldest);
+        }
+        return Promise.resolve();
+    }
+
+    delete(key: string): Promise<void> {
+        this.entries.delete(key);
+        return Promise.resolve();
+    }
+}
+
+/**
+ * Store backed by the `edge_cache` Postgres table (see supabase/migrations).
+ * Database errors are logged and treated as misses so caching never fails a request.
+ */
+export class SupabaseCacheStore implements CacheStore {
+    constructor(private table = "edge_cache") {}
+
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+        const client = getServiceClient();
+        if (!client) return null;
+
+        const { data, error } = await client
+            .from(this.table)
+            .select("value, stored_at, fresh_until, stale_until")
+            .eq("key", key)
+            .maybeSingle();
+
+        if (error) {
+            console.error(`Cache read failed for ${key}:`, error.message);
+            return null;
+        }
+        if (!data) return null;
+
+        const entry: CacheEntry<T> = {
+            value: data.value as T,
+            storedAt: Date.parse(data.stored_at),
+            freshUntil: Date.parse(data.fresh_until),
+            staleUntil: Date.parse(data.stale_until),
+        };
+        return entry.staleUntil > Date.now() ? entry : null;
+    }
+
+    async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+        const client = getServiceClient();
+        if (!client) return;
+
+        const { error } = await client.from(this.table).upsert({
+            key,
+            value: entry.value,
+            stored_at: new Date(entry.storedAt).toISOString(),
+            fresh_until: new Date(entry.freshUntil).toISOString(),
+            stale_until: new Date(entry.staleUntil).toISOString(),
+        });
+
+        if (error) console.error(`Cache write failed for ${key}:`, error.message);
+    }
+
+    async delete(key: string): Promise<void> {
+        const client = getServiceClient();
+        if (!client) return;
+
+        const { error } = await client.from(this.table).delete().eq("key", key);
+        if (error) console.error(`Cache delete failed for ${key}:`, error.message);
+    }
+}
+
+/**
+ * Default store: the Postgres table when service credentials are present,
+ * otherwise an in-memory store
+ */
+export function createCacheStore(): CacheStore {
+    return getServiceClient() ? new SupabaseCacheStore() : new MemoryCacheStore();
+}
+
+// ============================================================================
+// Response Cache
+// ============================================================================
+
+/**
+ * Keep background work alive after the response is sent (Supabase Edge Runtime)
+ */
+function waitUntil(promise: Promise<unknown>): void {
+    const runtime = (globalThis as any).EdgeRuntime;
+    if (runtime?.waitUntil) {
+        runtime.waitUntil(promise);
+    }
+}
+
+export class ResponseCache {
+    private revalidating = new Set<string>();
+
+    constructor(private backend: CacheStore = createCacheStore()) {}
+
+    /**
+     * Look up a key. Fresh entries are a HIT, expired-but-servable ones are STALE.
+     */
+    async lookup<T>(key: string): Promise<{ value: T; status: CacheStatus } | null> {
+        try {
+            const entry = await this.backend.get<T>(key);
+            if (!entry) return null;
+            return {
+                value: entry.value,
+                status: entry.freshUntil > Date.now() ? "HIT" : "STALE",
+            };
+        } catch (e) {
+            console.error(`Cache lookup failed for ${key}:`, e);
+            return null;
+        }
+    }
+
+    async store<T>(key: string, value: T, policy: CachePolicy): Promise<void> {
+        const now = Date.now();
+        try {
+            await this.backend.set(key, {
+                value,
+                storedAt: now,
+                freshUntil: now + policy.ttl * 1000,
+                staleUntil: now + (policy.ttl + policy.staleWhileRevalidate) * 1000,
+            });
+        } catch (e) {
+            console.error(`Cache store failed for ${key}:`, e);
+        }
+    }
+
+    /**
+     * Refresh a stale key in the background. The loader returns undefined
+     * when its result should not be cached (e.g. an upstream failure).
+     * Concurrent revalidations of the same key are collapsed into one.
+     */
+    revalidate<T>(key: string, policy: CachePolicy, loader: () => Promise<T | undefined>): void {
+        if (this.revalidating.has(key)) return;
+        this.revalidating.add(key);
+
+        const task = loader()
+            .then((value) => (value === undefined ? undefined : this.store(key, value, policy)))
+            .catch((e) => console.error(`Cache revalidation failed for ${key}:`, e))
+            .finally(() => this.revalidating.delete(key));
+
+        waitUntil(task);
+    }
+}
+
+/**
+ * Combine per-part cache statuses into one X-Cache value:
+ * any MISS makes the response a MISS, otherwise any STALE makes it STALE
+ */
+export function combineCacheStatus(statuses: CacheStatus[]): CacheStatus {
+    if (statuses.length === 0 || statuses.includes("MISS")) return "MISS";
+    if (statuses.includes("STALE")) return "STALE";
+    return "HIT";
+}
@@ -0,0 +1,205 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { areSameMedia } from "./dedup.ts";
+import { createMediaItem, MediaItem, MediaSource } from "./media.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// collections.watching_status, as the app sets it
+export type CollectionStatus = "wish" | "watching" | "watched" | "on_hold" | "dropped";
+
+export const COLLECTION_STATUSES: CollectionStatus[] = ["wish", "watching", "watched", "on_hold", "dropped"];
+
+export interface CollectedMedia {
+    // media.id
+    mediaId: string;
+    status: CollectionStatus;
+    // The media row with every media_source row as a source; its own source
+    // is the first one linked ("supabase" and the media id when there is none)
+    media: MediaItem;
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+const COLLECTION_COLUMNS = `
+    watching_status,
+    created_at,
+    media:media_id (
+        id,
+        media_type,
+        title_zh,
+        title_origin,
+        release_date,
+        poster_url,
+        staff,
+        media_source (
+            source_type,
+            source_id,
+            source_url
+        )
+    )
+`;
+
+/**
+ * A user's collection, most recently added first
+ */
+export async function fetchCollectedMedia(client: SupabaseClient, userId: string): Promise<CollectedMedia[]> {
+    const { data, error } = await client
+        .from("collections")
+        .select(COLLECTION_COLUMNS)
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+    if (error) throw error;
+
+    const collected: CollectedMedia[] = [];
+    for (const row of (data || []) as any[]) {
+        if (!row.media) continue;
+        collected.push({
+            mediaId: row.media.id,
+            status: row.watching_status,
+            media: mediaFromRow(row.media),
+        });
+    }
+    return collected;
+}
+
+function mediaFromRow(row: any): MediaItem {
+    const sources: MediaSource[] = (row.media_source || []).map((source: any) => ({
+        sourceType: source.source_type,
+        sourceId: source.source_id,
+        sourceUrl: source.source_url || "",
+        rating: 0,
+    }));
+    const primary = sources[0] ?? { sourceType: "supabase", sourceId: row.id, sourceUrl: "" };
+
+    // The app stores "YYYY-MM-DD"; year-only dates are saved as January 1st
+    const releaseDate: string = row.release_date || "";
+    const year = /^\d{4}/.test(releaseDate) ? releaseDate.slice(0, 4) : "----";
+
+    const media = createMediaItem({
+        sourceType: primary.sourceType,
+        sourceId: primary.sourceId,
+        sourceUrl: primary.sourceUrl,
+        mediaType: row.media_type || "movie",
+        titleZh: row.title_zh || "未知标题",
+        titleOriginal: row.title_origin || "",
+        releaseDate: releaseDate || "未知日期",
+        year: year,
+        posterUrl: row.poster_url || "",
+        staff: row.staff?.info || "暂无制作信息",
+        directors: row.staff?.directors || [],
+        actors: row.staff?.actors || [],
+    });
+    if (sources.length > 0) {
+        media.sources = sources;
+        media.externalIds = Object.fromEntries(sources.map((source) => [source.sourceType, source.sourceId]));
+    }
+    return media;
+}
+
+function sourceKeys(item: MediaItem): string[] {
+    return (item.sources ?? [item]).map((source) => `${source.sourceType}:${source.sourceId}`);
+}
+
+/**
+ * The collection entry for a title: the one sharing a source with it, else
+ * the same title by areSameMedia
+ */
+export function findCollected(item: MediaItem, collected: CollectedMedia[]): CollectedMedia | undefined {
+    const keys = new Set(sourceKeys(item));
+    return collected.find(({ media }) => sourceKeys(media).some((key) => keys.has(key))) ??
+        collected.find(({ media }) => areSameMedia(item, media));
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/**
+ * Fields of a new media row, as the app's CollectionRepository writes them
+ */
+function mediaRow(item: MediaItem): Record<string, unknown> {
+    let releaseDate: string | null = null;
+    if (/^\d{4}-\d{2}-\d{2}$/.test(item.releaseDate)) {
+        releaseDate = item.releaseDate;
+    } else if (/^\d{4}$/.test(item.year)) {
+        releaseDate = `${item.year}-01-01`;
+    }
+
+    return {
+        media_type: item.mediaType,
+        title_zh: item.titleZh,
+        title_origin: item.titleOriginal,
+        release_date: releaseDate,
+        duration: item.duration,
+        poster_url: item.posterUrl,
+        summary: item.summary,
+        staff: { info: item.staff, directors: item.directors, actors: item.actors },
+        rating_douban: item.ratingDouban > 0 ? item.ratingDouban : null,
+        rating_bangumi: item.ratingBangumi > 0 ? item.ratingBangumi : null,
+        // The app keeps TMDb's rating in ratingImdb
+        rating_tmdb: item.ratingImdb > 0 ? item.ratingImdb : null,
+        rating_maoyan: item.ratingMaoyan > 0 ? item.ratingMaoyan : null,
+    };
+}
+
+/**
+ * Add a title to a user's collection, or update its status there unless
+ * `overwriteStatus` is false. The media row is found through any of the item's
+ * sources, and created when none is known; sources it doesn't list yet are
+ * linked to it. Returns the media id.
+ */
+export async function saveCollectedMedia(
+    client: SupabaseClient,
+    userId: string,
+    item: MediaItem,
+    status: CollectionStatus,
+    { overwriteStatus = true }: { overwriteStatus?: boolean } = {}
+): Promise<string> {
+    const sources: MediaSource[] = item.sources?.length
+        ? item.sources
+        : [{ sourceType: item.sourceType, sourceId: item.sourceId, sourceUrl: item.sourceUrl, rating: item.rating }];
+
+    const { data: known, error: lookupError } = await client
+        .from("media_source")
+        .select("media_id, source_type, source_id")
+        .in("source_id", sources.map((source) => source.sourceId));
+    if (lookupError) throw lookupError;
+
+    const linked = (known || []).filter((row: any) =>
+        sources.some((source) => source.sourceType === row.source_type && source.sourceId === row.source_id)
+    );
+
+    let mediaId: string = linked[0]?.media_id;
+    if (!mediaId) {
+        const { data, error } = await client.from("media").insert(mediaRow(item)).select("id").single();
+        if (error) throw error;
+        mediaId = data.id;
+    }
+
+    const missing = sources.filter((source) =>
+        !linked.some((row: any) => row.source_type === source.sourceType && row.source_id === source.sourceId)
+    );
+    if (missing.length > 0) {
+        const { error } = await client.from("media_source").insert(missing.map((source) => ({
+            media_id: mediaId,
+            source_type: source.sourceType,
+            source_id: source.sourceId,
+            source_url: source.sourceUrl,
+        })));
+        if (error) throw error;
+    }
+
+    const { error } = await client
+        .from("collections")
+        .upsert(
+            { user_id: userId, media_id: mediaId, watching_status: status },
+            { onConflict: "user_id, media_id", ignoreDuplicates: !overwriteStatus }
+        );
+    if (error) throw error;
+
+    return mediaId;
+}
@@ -0,0 +1,332 @@
+import { MediaItem } from "./media.ts";
+import { Installment, normalizeTitle, parseInstallment } from "./normalize/title.ts";
+import { providerRegistry } from "./providers/registry.ts";
+
+export { normalizeTitle };
+
+// ============================================================================
+// Result Merging & Deduplication
+// ============================================================================
+
+/**
+ * Check if two titles are similar enough to be considered the same
+ */
+export function areTitlesSimilar(title1: string, title2: string): boolean {
+    const norm1 = normalizeTitle(title1);
+    const norm2 = normalizeTitle(title2);
+
+    if (!norm1 || !norm2) return false;
+
+    // Exact match after normalization
+    if (norm1 === norm2) return true;
+
+    // One contains the other (for titles with subtitles)
+    if (norm1.includes(norm2) || norm2.includes(norm1)) {
+        // Only if the shorter one is at least 2 characters
+        const shorter = norm1.length < norm2.length ? norm1 : norm2;
+        if (shorter.length >= 2) return true;
+    }
+
+    return false;
+}
+
+/**
+ * Check if two years are close enough (within 1 year, accounting for release differences)
+ */
+export function areYearsSimilar(year1: string, year2: string): boolean {
+    if (!year1 || !year2 || year1 === "----" || year2 === "----") return true; // Unknown years don't disqualify
+
+    const y1 = parseInt(year1);
+    const y2 = parseInt(year2);
+
+    if (isNaN(y1) || isNaN(y2)) return true;
+
+    return Math.abs(y1 - y2) <= 1;
+}
+
+/**
+ * Identifier-based matching. Returns false when the items carry conflicting
+ * ids for the same source, true when they otherwise share an id on some
+ * source (e.g. the same IMDb id), and null when they have no source in
+ * common. Conflicts win: two Douban season subjects sharing the series' IMDb
+ * id are still different titles.
+ */
+export function compareExternalIds(item1: MediaItem, item2: MediaItem): boolean | null {
+    const ids1 = item1.externalIds || {};
+    const ids2 = item2.externalIds || {};
+
+    let shared = false;
+    for (const [source, id] of Object.entries(ids1)) {
+        const other = ids2[source];
+        if (!other) continue;
+        if (other !== id) return false;
+        // TMDb numbers movies and shows separately: movie/1399 isn't tv/1399
+        if (source === "tmdb" && tmdbKind(item1) && tmdbKind(item2) && tmdbKind(item1) !== tmdbKind(item2)) {
+            return false;
+        }
+        shared = true;
+    }
+
+    return shared ? true : null;
+}
+
+/**
+ * "movie" or "tv" for the item's TMDb id, read from its TMDb link
+ */
+function tmdbKind(item: MediaItem): string | null {
+    const source = item.sources?.find((s) => s.sourceType === "tmdb") ??
+        (item.sourceType === "tmdb" ? item : undefined);
+    return source?.sourceUrl.match(/themoviedb\.org\/(movie|tv)\//)?.[1] ??
+        (item.sourceType === "tmdb" && (item.mediaType === "movie" || item.mediaType === "tv") ? item.mediaType : null);
+}
+
+/**
+ * Calculate data completeness score for an item
+ * Higher score = more complete data, should be preferred
+ */
+export function calculateCompletenessScore(item: MediaItem): number {
+    let score = 0;
+
+    // Has poster
+    if (item.posterUrl && item.posterUrl.length > 0) score += 20;
+
+    // Has summary (not placeholder)
+    if (item.summary && item.summary !== "暂无简介" && item.summary.length > 10) score += 15;
+
+    // Has ratings (each rating adds value)
+    if (item.ratingImdb > 0) score += 10;
+    if (item.ratingDouban > 0) score += 10;
+    if (item.ratingBangumi > 0) score += 10;
+    if (item.ratingMaoyan > 0) score += 8;
+
+    // Has directors/actors info
+    if (item.directors && item.directors.length > 0) score += 8;
+    if (item.actors && item.actors.length > 0) score += 8;
+
+    // Has genres
+    if (item.genres && item.genres.length > 0) score += 5;
+
+    // Has duration (not unknown)
+    if (item.duration && item.duration !== "未知") score += 5;
+
+    // Has original title
+    if (item.titleOriginal && item.titleOriginal.length > 0) score += 5;
+
+    // Source priority from the registry: TMDb > Bangumi > Maoyan > Douban (for data quality)
+    score += providerRegistry.get(item.sourceType)?.completenessWeight ?? 0;
+
+    return score;
+}
+
+/**
+ * Merge two MediaItems, keeping the most complete data
+ */
+export function mergeItems(primary: MediaItem, secondary: MediaItem): MediaItem {
+    const merged = { ...primary };
+
+    // Merge match count
+    merged.matchCount = (primary.matchCount || 1) + (secondary.matchCount || 1);
+
+    // Keep every source's id; the primary's wins if both know the same source
+    merged.externalIds = { ...secondary.externalIds, ...primary.externalIds };
+
+    // Keep the secondary's links so clients can reach (and store) every source
+    merged.sources = [...(primary.sources || [])];
+    for (const source of secondary.sources || []) {
+        const known = merged.sources.some(
+            (s) => s.sourceType === source.sourceType && s.sourceId === source.sourceId
+        );
+        if (!known) merged.sources.push(source);
+    }
+
+    // Merge ratings (take non-zero values)
+    if (secondary.ratingImdb > 0 && merged.ratingImdb === 0) {
+        merged.ratingImdb = secondary.ratingImdb;
+    }
+    if (secondary.ratingDouban > 0 && merged.ratingDouban === 0) {
+        merged.ratingDouban = secondary.ratingDouban;
+    }
+    if (secondary.ratingBangumi > 0 && merged.ratingBangumi === 0) {
+        merged.ratingBangumi = secondary.ratingBangumi;
+    }
+    if (secondary.ratingMaoyan > 0 && merged.ratingMaoyan === 0) {
+        merged.ratingMaoyan = secondary.ratingMaoyan;
+    }
+
+    // Use secondary's poster if primary doesn't have one
+    if ((!merged.posterUrl || merged.posterUrl.length === 0) && secondary.posterUrl) {
+        merged.posterUrl = secondary.posterUrl;
+    }
+
+    // Use secondary's summary if primary's is placeholder
+    if ((merged.summary === "暂无简介" || !merged.summary) && secondary.summary && secondary.summary !== "暂无简介") {
+        merged.summary = secondary.summary;
+    }
+
+    // Use secondary's directors/actors if primary doesn't have
+    if ((!merged.directors || merged.directors.length === 0) && secondary.directors && secondary.directors.length > 0) {
+        merged.directors = secondary.directors;
+    }
+    if ((!merged.actors || merged.actors.length === 0) && secondary.actors && secondary.actors.length > 0) {
+        merged.actors = secondary.actors;
+    }
+
+    // Use secondary's genres if primary doesn't have
+    if ((!merged.genres || merged.genres.length === 0) && secondary.genres && secondary.genres.length > 0) {
+        merged.genres = secondary.genres;
+    }
+
+    // Use secondary's duration if primary is unknown
+    if ((merged.duration === "未知" || !merged.duration) && secondary.duration && secondary.duration !== "未知") {
+        merged.duration = secondary.duration;
+    }
+
+    // Use secondary's original title if primary doesn't have
+    if ((!merged.titleOriginal || merged.titleOriginal.length === 0) && secondary.titleOriginal) {
+        merged.titleOriginal = secondary.titleOriginal;
+    }
+
+    return merged;
+}
+
+// ============================================================================
+// Franchise Installments
+// ============================================================================
+
+/**
+ * Installment markers of an item, read from both titles (the Chinese title
+ * wins where both carry one), plus the marker-free base titles
+ */
+export function installmentOf(item: MediaItem): { bases: string[]; installment: Installment } {
+    const zh = parseInstallment(item.titleZh);
+    const original = parseInstallment(item.titleOriginal);
+
+    return {
+        bases: [zh.base, original.base].filter((base) => base),
+        installment: {
+            season: zh.installment.season ?? original.installment.season,
+            sequel: zh.installment.sequel ?? original.installment.sequel,
+            arc: zh.installment.arc ?? original.installment.arc,
+            theatrical: zh.installment.theatrical || original.installment.theatrical,
+        },
+    };
+}
+
+/**
+ * Whether two items can be the same installment. A missing season or sequel
+ * number counts as the first one; an explicit 剧场版/Movie marker only blocks
+ * against an item that isn't a movie itself.
+ */
+export function areInstallmentsCompatible(item1: MediaItem, item2: MediaItem): boolean {
+    const a = installmentOf(item1).installment;
+    const b = installmentOf(item2).installment;
+
+    if ((a.season ?? 1) !== (b.season ?? 1)) return false;
+    if ((a.sequel ?? 1) !== (b.sequel ?? 1)) return false;
+    if (a.arc !== b.arc) return false;
+    if (a.theatrical && !b.theatrical && item2.mediaType !== "movie") return false;
+    if (b.theatrical && !a.theatrical && item1.mediaType !== "movie") return false;
+
+    return true;
+}
+
+/**
+ * Different installments of one franchise: the base titles match but the
+ * installments don't (鬼灭之刃 / 鬼灭之刃 游郭篇)
+ */
+export function areRelatedInstallments(item1: MediaItem, item2: MediaItem): boolean {
+    if (areInstallmentsCompatible(item1, item2)) return false;
+
+    const bases1 = installmentOf(item1).bases;
+    const bases2 = installmentOf(item2).bases;
+    return bases1.some((base1) =>
+        bases2.some((base2) => normalizeTitle(base1) === normalizeTitle(base2))
+    );
+}
+
+/**
+ * Nest other installments of a franchise under the first (highest ranked)
+ * installment in the list, as `related` entries tagged with their markers
+ */
+export function groupRelatedResults(results: MediaItem[]): MediaItem[] {
+    const grouped: MediaItem[] = [];
+
+    for (const result of results) {
+        const headIndex = grouped.findIndex((head) => areRelatedInstallments(head, result));
+        if (headIndex === -1) {
+            grouped.push(result);
+            continue;
+        }
+
+        const head = grouped[headIndex];
+        grouped[headIndex] = {
+            ...head,
+            related: [
+                ...(head.related || []),
+                { ...result, installment: installmentOf(result).installment },
+            ],
+        };
+    }
+
+    return grouped;
+}
+
+// ============================================================================
+// Identity
+// ============================================================================
+
+/**
+ * Check if two items represent the same media
+ */
+export function areSameMedia(item1: MediaItem, item2: MediaItem): boolean {
+    // Shared ids decide outright, both ways: remakes and same-name films
+    // carry different ids, translated titles share one
+    const idMatch = compareExternalIds(item1, item2);
+    if (idMatch !== null) return idMatch;
+
+    // Must have similar years
+    if (!areYearsSimilar(item1.year, item2.year)) return false;
+
+    // Seasons, sequels, arcs and theatrical cuts are never merged
+    if (!areInstallmentsCompatible(item1, item2)) return false;
+
+    // Check Chinese titles
+    if (areTitlesSimilar(item1.titleZh, item2.titleZh)) return true;
+
+    // Check original titles
+    if (item1.titleOriginal && item2.titleOriginal) {
+        if (areTitlesSimilar(item1.titleOriginal, item2.titleOriginal)) return true;
+    }
+
+    // Cross-check: Chinese title vs Original title
+    if (areTitlesSimilar(item1.titleZh, item2.titleOriginal)) return true;
+    if (areTitlesSimilar(item1.titleOriginal, item2.titleZh)) return true;
+
+    return false;
+}
+
+export function deduplicateResults(allResults: MediaItem[]): MediaItem[] {
+    if (allResults.length === 0) return [];
+
+    // Sort by completeness score descending (most complete first)
+    const sortedResults = [...allResults].sort((a, b) => {
+        return calculateCompletenessScore(b) - calculateCompletenessScore(a);
+    });
+
+    const uniqueResults: MediaItem[] = [];
+
+    for (const result of sortedResults) {
+        // Find if there's an existing item that matches
+        const existingIndex = uniqueResults.findIndex(existing => areSameMedia(existing, result));
+
+        if (existingIndex === -1) {
+            // No match found, add as new unique result
+            uniqueResults.push(result);
+        } else {
+            // Match found, merge the data
+            uniqueResults[existingIndex] = mergeItems(uniqueResults[existingIndex], result);
+        }
+    }
+
+    return uniqueResults;
+}
@@ -0,0 +1,126 @@
+import { ProviderError } from "./providers/http.ts";
+
+// ============================================================================
+// Error Model
+// ============================================================================
+
+export type ErrorCode =
+    // The request itself is invalid
+    | "bad_request"
+    | "unauthorized"
+    | "forbidden"
+    | "not_found"
+    | "rate_limited"
+    // A required secret or setting is missing or rejected
+    | "config_error"
+    // The upstream source could not be reached (network failure, anti-bot
+    // block, circuit open)
+    | "upstream_unavailable"
+    // The upstream source answered with an error status or an unreadable body
+    | "upstream_error"
+    // The upstream source didn't answer in time
+    | "upstream_timeout"
+    | "internal_error";
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+    bad_request: 400,
+    unauthorized: 401,
+    forbidden: 403,
+    not_found: 404,
+    rate_limited: 429,
+    config_error: 500,
+    internal_error: 500,
+    upstream_unavailable: 502,
+    upstream_error: 502,
+    upstream_timeout: 504,
+};
+
+/**
+ * Error with a code the client can act on. `upstreamStatus` carries the
+ * source's HTTP status for upstream_error.
+ */
+export class AppError extends Error {
+    constructor(
+        readonly code: ErrorCode,
+        message: string,
+        readonly upstreamStatus?: number,
+        readonly headers: Record<string, string> = {}
+    ) {
+        super(message);
+        this.name = "AppError";
+    }
+}
+
+/**
+ * Classify anything thrown by a handler. Provider failures become upstream
+ * errors, a non-JSON request body a bad_request, the rest internal errors.
+ */
+export function toAppError(e: unknown): AppError {
+    if (e instanceof AppError) return e;
+
+    if (e instanceof ProviderError) {
+        switch (e.status) {
+            case "blocked":
+            case "circuit_open":
+                return new AppError("upstream_unavailable", e.message);
+            case "http_error":
+                return e.httpStatus
+                    ? new AppError("upstream_error", e.message, e.httpStatus)
+                    : new AppError("upstream_unavailable", e.message);
+            case "timeout":
+                return new AppError("upstream_timeout", e.message);
+            default:
+                return new AppError("upstream_error", e.message);
+        }
+    }
+
+    if (e instanceof SyntaxError) {
+        return new AppError("bad_request", "Request body must be valid JSON");
+    }
+    if (e instanceof TypeError && /fetch|network|connect/i.test(e.message)) {
+        return new AppError("upstream_unavailable", e.message);
+    }
+    return new AppError("internal_error", e instanceof Error ? e.message : String(e));
+}
+
+// ============================================================================
+// Request IDs & Responses
+// ============================================================================
+
+/**
+ * The caller's X-Request-Id when it looks sane, otherwise a fresh UUID
+ */
+export function requestIdFor(req: Request): string {
+    const incoming = req.headers.get("x-request-id");
+    return incoming && /^[\w.-]{8,64}$/.test(incoming) ? incoming : crypto.randomUUID();
+}
+
+/**
+ * Log an error under its request ID and render it as
+ * `{ error, code, requestId, upstreamStatus? }`. Client errors are logged
+ * as warnings without a stack.
+ */
+export function errorResponse(e: unknown, requestId: string, headers: Record<string, string> = {}): Response {
+    const error = toAppError(e);
+    const status = ERROR_STATUS[error.code];
+
+    if (status >= 500) {
+        const details = e instanceof AppError ? [] : [e];
+        console.error(`[${requestId}] ${error.code}: ${error.message}`, ...details);
+    } else {
+        console.warn(`[${requestId}] ${error.code}: ${error.message}`);
+    }
+
+    const body: Record<string, unknown> = { error: error.message, code: error.code, requestId };
+    if (error.upstreamStatus !== undefined) body.upstreamStatus = error.upstreamStatus;
+
+    return new Response(JSON.stringify(body), {
+        headers: {
+            ...headers,
+            ...error.headers,
+            "Content-Type": "application/json",
+            "X-Request-Id": requestId,
+        },
+        status,
+    });
+}
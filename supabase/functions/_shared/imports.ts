@@ -0,0 +1,457 @@
+import * as cheerio from "https://esm.sh/cheerio@1.0.0-rc.12";
+import { CollectionStatus } from "./collections.ts";
+import { areSameMedia, deduplicateResults, mergeItems, normalizeTitle } from "./dedup.ts";
+import { createMediaItem, MediaItem } from "./media.ts";
+import { parseBangumiListing } from "./providers/bangumi.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ImportSource = "douban" | "bangumi" | "letterboxd";
+
+export const IMPORT_SOURCES: ImportSource[] = ["douban", "bangumi", "letterboxd"];
+
+export type ImportFormat = "csv" | "json" | "html";
+
+export const IMPORT_FORMATS: ImportFormat[] = ["csv", "json", "html"];
+
+/**
+ * One title of an export, before it is matched
+ */
+export interface ImportRow {
+    // Position among the export's importable rows, from 0
+    index: number;
+    title: string;
+    titleOriginal: string;
+    year: string;
+    // null when the export doesn't say (Letterboxd lists, untitled list pages)
+    status: CollectionStatus | null;
+    // The title on the exporting site, when that site is one of our sources
+    source?: { sourceType: "douban" | "bgm"; sourceId: string; sourceUrl: string };
+    // "anime" for Bangumi animation, which is matched on Bangumi; the rest on TMDb
+    mediaType: string | null;
+}
+
+export interface ParsedImport {
+    format: ImportFormat;
+    rows: ImportRow[];
+    // Entries that aren't films or shows (books, music, games)
+    skipped: number;
+}
+
+export class ImportFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ImportFormatError";
+    }
+}
+
+// Every status label the exports use
+const STATUS_ALIASES: Record<string, CollectionStatus> = {
+    wish: "wish",
+    watching: "watching",
+    watched: "watched",
+    on_hold: "on_hold",
+    dropped: "dropped",
+    // Douban pages and its API
+    "看过": "watched",
+    "想看": "wish",
+    "在看": "watching",
+    done: "watched",
+    mark: "wish",
+    doing: "watching",
+    // Bangumi collection types and labels
+    "1": "wish",
+    "2": "watched",
+    "3": "watching",
+    "4": "on_hold",
+    "5": "dropped",
+    collect: "watched",
+    do: "watching",
+    "搁置": "on_hold",
+    "抛弃": "dropped",
+    // Letterboxd
+    watchlist: "wish",
+};
+
+// Bangumi subject types: 2 animation, 6 live action; the rest are skipped
+const BANGUMI_ANIME_TYPE = 2;
+const BANGUMI_REAL_TYPE = 6;
+
+// ============================================================================
+// Shared Parsing
+// ============================================================================
+
+export function detectFormat(content: string): ImportFormat {
+    const head = content.replace(/^\uFEFF/, "").trimStart();
+    if (head.startsWith("{") || head.startsWith("[")) return "json";
+    if (head.startsWith("<")) return "html";
+    return "csv";
+}
+
+export function statusFromLabel(label: string | number | undefined | null): CollectionStatus | null {
+    if (label === undefined || label === null) return null;
+    const key = String(label).trim().toLowerCase();
+    return STATUS_ALIASES[key] ?? STATUS_ALIASES[key.replace(/\s*[(（]\d+[)）]$/, "")] ?? null;
+}
+
+function yearOf(text: string | number | undefined | null): string {
+    return String(text ?? "").match(/(?:^|\D)((?:18|19|20)\d{2})(?!\d)/)?.[1] ?? "----";
+}
+
+/**
+ * "千与千寻 / 千と千尋の神隠し / Spirited Away": the first name and, as the
+ * original title, the second
+ */
+function splitTitles(text: string): { title: string; titleOriginal: string } {
+    const [title = "", titleOriginal = ""] = text.split(/\s+\/\s+/).map((part) => part.trim());
+    return { title, titleOriginal };
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may hold commas, quotes ("") and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    const input = text.replace(/^\uFEFF/, "");
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quoted) {
+            if (char !== '"') {
+                field += char;
+            } else if (input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else {
+                quoted = false;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ",") {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && input[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+    if (quoted) throw new ImportFormatError("Unterminated quoted field in CSV");
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/**
+ * CSV rows as records keyed by lower-cased header
+ */
+function csvRecords(content: string): Record<string, string>[] {
+    const [header, ...rows] = parseCsv(content);
+    if (!header) return [];
+    const keys = header.map((key) => key.trim().toLowerCase());
+    return rows.map((cells) => Object.fromEntries(keys.map((key, i) => [key, (cells[i] ?? "").trim()])));
+}
+
+/**
+ * First non-empty value among the given columns
+ */
+function column(record: Record<string, unknown>, names: string[]): string {
+    for (const name of names) {
+        const value = record[name];
+        if (value !== undefined && value !== null && String(value).trim()) return String(value).trim();
+    }
+    return "";
+}
+
+function parseJson(content: string): any {
+    try {
+        return JSON.parse(content.replace(/^\uFEFF/, ""));
+    } catch {
+        throw new ImportFormatError("Content is not valid JSON");
+    }
+}
+
+/**
+ * The entry list of a JSON export: the document itself or its first list field
+ */
+function jsonEntries(data: any, fields: string[]): any[] {
+    if (Array.isArray(data)) return data;
+    for (const field of fields) {
+        if (Array.isArray(data?.[field])) return data[field];
+    }
+    throw new ImportFormatError(`Expected a JSON array or an object with one of: ${fields.join(", ")}`);
+}
+
+// ============================================================================
+// Douban
+// ============================================================================
+
+const DOUBAN_SUBJECT_URL = /(?:movie\.)?douban\.com\/subject\/(\d+)/;
+
+function doubanSource(url: string): ImportRow["source"] {
+    const sourceId = url.match(DOUBAN_SUBJECT_URL)?.[1];
+    return sourceId
+        ? { sourceType: "douban", sourceId, sourceUrl: `https://movie.douban.com/subject/${sourceId}` }
+        : undefined;
+}
+
+/**
+ * CSV from backup tools (标题, 条目链接, 上映日期, ...) and JSON, either such
+ * records or the app API's interests
+ */
+function parseDouban(content: string, format: ImportFormat): Omit<ImportRow, "index">[] {
+    if (format === "html") return parseDoubanPage(content);
+
+    const records = format === "csv"
+        ? csvRecords(content)
+        : jsonEntries(parseJson(content), ["interests", "items", "data"]);
+
+    return records.map((record: any) => {
+        // API interests nest the subject
+        const subject = record.subject ?? record;
+        const { title, titleOriginal } = splitTitles(column(subject, ["标题", "片名", "title", "name"]));
+        return {
+            title,
+            titleOriginal: column(subject, ["原名", "original_title", "original title"]) || titleOriginal,
+            year: yearOf(column(subject, ["年份", "year", "上映日期", "pubdate", "release date"])),
+            status: statusFromLabel(column(record, ["状态", "status"])),
+            source: doubanSource(
+                column(subject, ["条目链接", "链接", "url", "link"]) || (subject.id ? `douban.com/subject/${subject.id}` : "")
+            ),
+            mediaType: subject.type === "tv" ? "tv" : subject.type === "movie" ? "movie" : null,
+        };
+    });
+}
+
+/**
+ * A saved 看过/想看/在看 list page (movie.douban.com/people/<id>/collect);
+ * the status comes from the page heading
+ */
+function parseDoubanPage(content: string): Omit<ImportRow, "index">[] {
+    const $ = cheerio.load(content);
+    const heading = `${$("title").text()} ${$("#db-usr-profile h1").text()}`;
+    const status = heading.includes("看过") ? "watched"
+        : heading.includes("想看") ? "wish"
+        : heading.includes("在看") ? "watching"
+        : null;
+
+    return $(".grid-view .item, .list-view .item").toArray().map((el: any) => {
+        const $item = $(el);
+        const link = $item.find(".title a").first();
+        const { title, titleOriginal } = splitTitles(link.text().replace(/\s+/g, " ").trim());
+        return {
+            title,
+            titleOriginal,
+            year: yearOf($item.find(".intro").first().text()),
+            status,
+            source: doubanSource(link.attr("href") || ""),
+            mediaType: null,
+        };
+    });
+}
+
+// ============================================================================
+// Bangumi
+// ============================================================================
+
+function bangumiSource(sourceId: string | number | undefined): ImportRow["source"] {
+    const id = String(sourceId ?? "").trim();
+    return /^\d+$/.test(id) ? { sourceType: "bgm", sourceId: id, sourceUrl: `https://bgm.tv/subject/${id}` } : undefined;
+}
+
+/**
+ * "anime", null for live action (matched on TMDb), undefined for types that
+ * aren't imported. Exports without a subject type are anime lists.
+ */
+function bangumiMediaType(type: unknown): string | null | undefined {
+    const label = String(type ?? "").trim().toLowerCase();
+    if (!label) return "anime";
+    if (/^\d+$/.test(label)) {
+        const value = Number(label);
+        if (value === BANGUMI_ANIME_TYPE) return "anime";
+        if (value === BANGUMI_REAL_TYPE) return null;
+        return undefined;
+    }
+    if (/书籍|音乐|游戏|book|music|game/.test(label)) return undefined;
+    if (/三次元|real/.test(label)) return null;
+    return "anime";
+}
+
+/**
+ * API collections (/v0/users/<name>/collections, `type` 1-5), CSV with the
+ * same fields, or a saved list page (bgm.tv/anime/list/<name>/collect).
+ * Rows of unknown subject types are dropped as undefined.
+ */
+function parseBangumi(content: string, format: ImportFormat): (Omit<ImportRow, "index"> | undefined)[] {
+    if (format === "html") return parseBangumiPage(content);
+
+    const records = format === "csv" ? csvRecords(content) : jsonEntries(parseJson(content), ["data", "items"]);
+    return records.map((record: any) => {
+        // API collections nest the subject; the collection's own type is the status
+        const nested = record.subject !== undefined;
+        const subject = nested ? record.subject : record;
+        const mediaType = bangumiMediaType(nested ? subject.type : column(record, ["subject_type", "类型"]));
+        if (mediaType === undefined) return undefined;
+
+        const titleOriginal = column(subject, ["name", "原名"]);
+        return {
+            title: column(subject, ["name_cn", "中文名", "title"]) || titleOriginal,
+            titleOriginal,
+            year: yearOf(column(subject, ["date", "air_date", "放送开始", "日期"])),
+            status: statusFromLabel(nested ? record.type : column(record, ["type", "status", "状态"])),
+            source: bangumiSource(record.subject_id ?? subject.id ?? column(record, ["条目id"])),
+            mediaType,
+        };
+    });
+}
+
+function parseBangumiPage(content: string): Omit<ImportRow, "index">[] {
+    const $ = cheerio.load(content);
+    const status = statusFromLabel($(".navSubTabs a.focus").first().text());
+
+    return $("#browserItemList > li").toArray().flatMap((el: any) => {
+        const item = parseBangumiListing($, el);
+        if (!item) return [];
+        return [{
+            title: item.titleZh,
+            titleOriginal: item.titleOriginal,
+            year: item.year,
+            status,
+            source: bangumiSource(item.sourceId),
+            mediaType: "anime",
+        }];
+    });
+}
+
+// ============================================================================
+// Letterboxd
+// ============================================================================
+
+/**
+ * The CSVs of Letterboxd's data export (watched, watchlist, diary, ratings)
+ * or a saved film grid page. Only diary and ratings say the film was seen.
+ */
+function parseLetterboxd(content: string, format: ImportFormat): Omit<ImportRow, "index">[] {
+    if (format === "json") throw new ImportFormatError("Letterboxd exports are CSV files or list pages");
+    if (format === "html") return parseLetterboxdPage(content);
+
+    return csvRecords(content).map((record) => ({
+        title: column(record, ["name", "title"]),
+        titleOriginal: "",
+        year: yearOf(column(record, ["year"])),
+        status: column(record, ["watched date", "rating"]) ? "watched" : null,
+        mediaType: "movie",
+    }));
+}
+
+function parseLetterboxdPage(content: string): Omit<ImportRow, "index">[] {
+    const $ = cheerio.load(content);
+    const films = $("[data-item-name]").length ? $("[data-item-name]") : $("[data-film-slug]");
+    return films.toArray().map((el: any) => {
+        const $film = $(el);
+        // "Spirited Away (2001)" on newer pages; the poster's alt text on older ones
+        const name = $film.attr("data-item-name") || $film.attr("data-film-name") || $film.find("img").attr("alt") || "";
+        const match = name.trim().match(/^(.*?)\s*\((\d{4})\)$/);
+        return {
+            title: match ? match[1] : name.trim(),
+            titleOriginal: "",
+            year: match ? match[2] : yearOf($film.attr("data-film-release-year")),
+            status: null,
+            mediaType: "movie",
+        };
+    });
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+/**
+ * Rows of an export, in export order, without untitled entries
+ */
+export function parseImport(source: ImportSource, content: string, format = detectFormat(content)): ParsedImport {
+    const parsed = source === "douban"
+        ? parseDouban(content, format)
+        : source === "bangumi"
+        ? parseBangumi(content, format)
+        : parseLetterboxd(content, format);
+
+    const rows = parsed
+        .filter((row): row is Omit<ImportRow, "index"> => row !== undefined && row.title !== "")
+        .map((row, index) => ({ index, ...row }));
+    return { format, rows, skipped: parsed.filter((row) => row === undefined).length };
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+export type MatchResult = "matched" | "ambiguous" | "unmatched";
+
+export interface RowMatch {
+    result: MatchResult;
+    // The title to import: the matching search hit, with the row's own
+    // source merged in when it has one
+    item?: MediaItem;
+    // Ambiguous rows: every hit the row could be
+    candidates: MediaItem[];
+    // Ambiguous and unmatched rows with their own source: the row as that
+    // source's title, imported only when the caller picks it
+    ownSource?: MediaItem;
+}
+
+/**
+ * The row as a MediaItem for areSameMedia; its own source when it has one
+ */
+export function rowMedia(row: ImportRow): MediaItem {
+    return createMediaItem({
+        sourceType: row.source?.sourceType ?? "import",
+        sourceId: row.source?.sourceId ?? String(row.index),
+        sourceUrl: row.source?.sourceUrl ?? "",
+        mediaType: row.mediaType ?? "movie",
+        titleZh: row.title,
+        titleOriginal: row.titleOriginal,
+        year: row.year,
+    });
+}
+
+function isExactMatch(row: ImportRow, item: MediaItem): boolean {
+    const titles = [row.title, row.titleOriginal].filter((title) => title).map(normalizeTitle);
+    const sameTitle = [item.titleZh, item.titleOriginal].some((title) => title && titles.includes(normalizeTitle(title)));
+    return sameTitle && (row.year === "----" || row.year === item.year);
+}
+
+/**
+ * Resolve a row against search hits with areSameMedia. Several matches are
+ * narrowed to the one with the same title and year; when that doesn't settle
+ * it the row is ambiguous. A row with its own source is merged into its match;
+ * without one it keeps that source as `ownSource` for the caller to pick.
+ */
+export function matchRow(row: ImportRow, hits: MediaItem[]): RowMatch {
+    const own = rowMedia(row);
+    const matches = deduplicateResults(hits.filter((hit) => areSameMedia(own, hit)));
+
+    let match: MediaItem | undefined = matches.length === 1 ? matches[0] : undefined;
+    if (matches.length > 1) {
+        const exact = matches.filter((hit) => isExactMatch(row, hit));
+        if (exact.length === 1) match = exact[0];
+    }
+
+    if (match) {
+        return { result: "matched", item: row.source ? mergeItems(match, own) : match, candidates: [] };
+    }
+    const ownSource = row.source ? own : undefined;
+    if (matches.length > 1) return { result: "ambiguous", candidates: matches, ownSource };
+    return { result: "unmatched", candidates: [], ownSource };
+}
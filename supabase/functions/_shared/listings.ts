@@ -0,0 +1,121 @@
+import { areSameMedia, mergeItems } from "./dedup.ts";
+import { MediaItem } from "./media.ts";
+import { mapWithConcurrency, ProviderError } from "./providers/http.ts";
+import { MaoyanListing } from "./providers/maoyan.ts";
+import { fetchTmdbMovieList, searchTmdbMovies, TmdbMovieList } from "./providers/tmdb.ts";
+
+// ============================================================================
+// Sorting
+// ============================================================================
+
+export type ListingSort = "score" | "wish" | "date";
+
+export const LISTING_SORTS: ListingSort[] = ["score", "wish", "date"];
+
+function hasDate(item: MediaItem): boolean {
+    return /^\d{4}-\d{2}-\d{2}/.test(item.releaseDate);
+}
+
+function wishCount(item: MediaItem): number {
+    return parseInt(item.wish, 10) || 0;
+}
+
+/**
+ * Films without the sorted value go last; ties keep Maoyan's order. "date" is
+ * newest first for films showing and soonest first for upcoming ones.
+ */
+export function sortListing(items: MediaItem[], sort: ListingSort | null, listing: MaoyanListing): MediaItem[] {
+    if (!sort) return items;
+
+    const sorted = [...items];
+    switch (sort) {
+        case "score":
+            return sorted.sort((a, b) => b.rating - a.rating || wishCount(b) - wishCount(a));
+        case "wish":
+            return sorted.sort((a, b) => wishCount(b) - wishCount(a));
+        case "date": {
+            const direction = listing === "coming" ? 1 : -1;
+            return sorted.sort((a, b) => {
+                if (!hasDate(a) || !hasDate(b)) return Number(!hasDate(a)) - Number(!hasDate(b));
+                return direction * a.releaseDate.localeCompare(b.releaseDate);
+            });
+        }
+    }
+}
+
+// ============================================================================
+// TMDb Matching
+// ============================================================================
+
+const TMDB_LISTS: Record<MaoyanListing, TmdbMovieList> = {
+    showing: "now_playing",
+    coming: "upcoming",
+};
+
+const TMDB_REGION = "CN";
+const TMDB_LIST_PAGES = 2;
+const TMDB_SEARCH_CONCURRENCY = 4;
+
+export interface TmdbMatchResult {
+    items: MediaItem[];
+    // Films matched on TMDb
+    matched: number;
+    // First failure, if any; the films it affected keep Maoyan's data alone
+    error: unknown;
+}
+
+/**
+ * Merge each film's TMDb entry into it, Maoyan's data first. Candidates are
+ * TMDb's list for the region, then a title search for films not on it; both
+ * are matched with areSameMedia like any merged search result. Fail-soft: a
+ * failed list page or search, or the budget running out, only costs the
+ * films it would have matched.
+ */
+export async function matchListingOnTmdb(
+    items: MediaItem[],
+    listing: MaoyanListing,
+    budgetMs: number
+): Promise<TmdbMatchResult> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), budgetMs);
+    const timeout = new ProviderError("timeout", `TMDb matching ran out of its ${budgetMs}ms budget`);
+
+    let error: unknown = null;
+    const fail = (e: unknown) => {
+        error ??= controller.signal.aborted ? timeout : e;
+    };
+
+    try {
+        const pages = await Promise.allSettled(
+            Array.from({ length: TMDB_LIST_PAGES }, (_, i) =>
+                fetchTmdbMovieList(TMDB_LISTS[listing], TMDB_REGION, i + 1, controller.signal)
+            )
+        );
+        const candidates = pages.flatMap((page) => {
+            if (page.status === "fulfilled") return page.value;
+            console.error(`TMDb ${TMDB_LISTS[listing]} failed:`, page.reason);
+            fail(page.reason);
+            return [];
+        });
+
+        const matched = await mapWithConcurrency(items, TMDB_SEARCH_CONCURRENCY, async (item) => {
+            let match = candidates.find((candidate) => areSameMedia(item, candidate));
+            if (!match && controller.signal.aborted) {
+                fail(timeout);
+            } else if (!match) {
+                try {
+                    const hits = await searchTmdbMovies(item.titleZh, controller.signal);
+                    match = hits.find((hit) => areSameMedia(item, hit));
+                } catch (e) {
+                    if (!controller.signal.aborted) console.error(`TMDb search failed for ${item.titleZh}:`, e);
+                    fail(e);
+                }
+            }
+            return match ? mergeItems(item, match) : item;
+        });
+
+        return { items: matched, matched: matched.filter((item) => item.externalIds?.tmdb).length, error };
+    } finally {
+        clearTimeout(timer);
+    }
+}
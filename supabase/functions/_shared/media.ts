@@ -0,0 +1,100 @@
+import { Installment } from "./normalize/title.ts";
+
+// ============================================================================
+// Media Item
+// ============================================================================
+
+export interface MediaCredit {
+    name: string;
+    // Character for cast, job for crew (e.g. "Director", "脚本")
+    role: string;
+    avatarUrl?: string;
+}
+
+// One source a (possibly merged) item was found on
+export interface MediaSource {
+    sourceType: string;
+    sourceId: string;
+    sourceUrl: string;
+    // That source's own rating
+    rating: number;
+}
+
+export interface MediaItem {
+    sourceType: string; // 'tmdb' | 'bgm' | 'maoyan' | 'douban'
+    sourceId: string;
+    sourceUrl: string;
+    mediaType: string; // 'movie' | 'tv' | 'anime'
+    titleZh: string;
+    titleOriginal: string;
+    releaseDate: string;
+    duration: string;
+    year: string;
+    posterUrl: string;
+    summary: string;
+    staff: string;
+    directors: string[];
+    actors: string[];
+    rating: number;
+    ratingDouban: number;
+    ratingImdb: number;
+    ratingBangumi: number;
+    ratingMaoyan: number;
+    genres: string[];
+    wish: string;
+    isNew: boolean;
+    matchCount?: number;
+    // Source id -> id on that source, e.g. { tmdb: "1399", imdb: "tt0944947" }.
+    // Always holds the item's own sourceType/sourceId; merges union the maps.
+    externalIds?: Record<string, string>;
+    // Every source merged into this item, the primary first
+    sources?: MediaSource[];
+    // Other installments of the same franchise (seasons, sequels, arcs,
+    // theatrical cuts), grouped under the highest ranked one
+    related?: MediaItem[];
+    // Set on `related` entries: the markers that set them apart
+    installment?: Installment;
+    // Full credits; only filled by detail lookups
+    cast?: MediaCredit[];
+    crew?: MediaCredit[];
+}
+
+type RequiredMediaFields = "sourceType" | "sourceId" | "sourceUrl" | "mediaType" | "titleZh";
+
+/**
+ * Build a MediaItem, filling every field a provider doesn't know with the
+ * placeholder values the app expects ("未知日期", "暂无简介", ...)
+ */
+export function createMediaItem(
+    fields: Pick<MediaItem, RequiredMediaFields> & Partial<MediaItem>
+): MediaItem {
+    const item: MediaItem = {
+        titleOriginal: "",
+        releaseDate: "未知日期",
+        duration: "未知",
+        year: "----",
+        posterUrl: "",
+        summary: "暂无简介",
+        staff: "暂无制作信息",
+        directors: [],
+        actors: [],
+        rating: 0,
+        ratingDouban: 0,
+        ratingImdb: 0,
+        ratingBangumi: 0,
+        ratingMaoyan: 0,
+        genres: [],
+        wish: "",
+        isNew: false,
+        matchCount: 1,
+        ...fields,
+    };
+    item.externalIds = { ...fields.externalIds, [fields.sourceType]: fields.sourceId };
+    item.sources = [{
+        sourceType: item.sourceType,
+        sourceId: item.sourceId,
+        sourceUrl: item.sourceUrl,
+        rating: item.rating,
+    }];
+    return item;
+}
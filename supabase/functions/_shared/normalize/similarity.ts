@@ -0,0 +1,71 @@
+// ============================================================================
+// String Similarity
+// ============================================================================
+
+/**
+ * Levenshtein distance over code points (so CJK characters count as one)
+ */
+export function editDistance(a: string, b: string): number {
+    const s = [...a];
+    const t = [...b];
+    if (s.length === 0) return t.length;
+    if (t.length === 0) return s.length;
+
+    let previous = Array.from({ length: t.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= s.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= t.length; j++) {
+            const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[t.length];
+}
+
+/**
+ * 1 - edit distance / longer length; 1 for identical strings
+ */
+export function editSimilarity(a: string, b: string): number {
+    const longer = Math.max([...a].length, [...b].length);
+    if (longer === 0) return 0;
+    return 1 - editDistance(a, b) / longer;
+}
+
+function bigrams(text: string): string[] {
+    const chars = [...text];
+    if (chars.length < 2) return chars;
+    return chars.slice(1).map((char, i) => chars[i] + char);
+}
+
+/**
+ * Dice coefficient over character bigrams; tolerant of reordered words and
+ * extra subtitles where edit distance is not
+ */
+export function bigramSimilarity(a: string, b: string): number {
+    const aGrams = bigrams(a);
+    const bGrams = bigrams(b);
+    if (aGrams.length === 0 || bGrams.length === 0) return 0;
+
+    const counts = new Map<string, number>();
+    for (const gram of aGrams) counts.set(gram, (counts.get(gram) ?? 0) + 1);
+
+    let shared = 0;
+    for (const gram of bGrams) {
+        const count = counts.get(gram) ?? 0;
+        if (count > 0) {
+            shared++;
+            counts.set(gram, count - 1);
+        }
+    }
+    return (2 * shared) / (aGrams.length + bGrams.length);
+}
+
+/**
+ * Best of edit and bigram similarity, in [0, 1]
+ */
+export function fuzzySimilarity(a: string, b: string): number {
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+    return Math.max(editSimilarity(a, b), bigramSimilarity(a, b));
+}
@@ -0,0 +1,198 @@
+import { CHINESE_VARIANTS, TITLE_PARTICLES } from "./variants.ts";
+
+// ============================================================================
+// Character Folding
+// ============================================================================
+
+/**
+ * Full-width letters, digits and punctuation to ASCII, half-width katakana to
+ * full-width (NFKC)
+ */
+export function foldWidth(text: string): string {
+    return text.normalize("NFKC");
+}
+
+/**
+ * Traditional Chinese and Japanese shinjitai characters to simplified Chinese
+ */
+export function foldChineseVariants(text: string): string {
+    let folded = "";
+    for (const char of text) {
+        folded += CHINESE_VARIANTS.get(char) ?? char;
+    }
+    return folded;
+}
+
+/**
+ * Fold possessive particles (の, 之) to 的. Runs before foldKana so only
+ * hiragana の is treated as a particle, not katakana ノ.
+ */
+export function foldParticles(text: string): string {
+    let folded = "";
+    for (const char of text) {
+        folded += TITLE_PARTICLES.get(char) ?? char;
+    }
+    return folded;
+}
+
+/**
+ * Katakana to hiragana so either spelling of a kana title compares equal
+ */
+export function foldKana(text: string): string {
+    let folded = "";
+    for (const char of text) {
+        const code = char.charCodeAt(0);
+        // ァ (U+30A1) .. ヶ (U+30F6) sit 0x60 above their hiragana
+        folded += code >= 0x30a1 && code <= 0x30f6 ? String.fromCharCode(code - 0x60) : char;
+    }
+    return folded;
+}
+
+// ============================================================================
+// Season Suffixes
+// ============================================================================
+
+const CHINESE_DIGITS: Record<string, number> = {
+    "零": 0, "一": 1, "二": 2, "两": 2, "三": 3, "四": 4, "五": 5,
+    "六": 6, "七": 7, "八": 8, "九": 9,
+};
+
+/**
+ * "2", "二", "十二", "二十一" -> number; null if not a numeral
+ */
+export function parseNumeral(text: string): number | null {
+    if (/^\d+$/.test(text)) return parseInt(text, 10);
+    if (!/^[零一二两三四五六七八九十]+$/.test(text)) return null;
+
+    const tenIndex = text.indexOf("十");
+    if (tenIndex === -1) {
+        return text.length === 1 ? CHINESE_DIGITS[text] : null;
+    }
+    const tens = tenIndex === 0 ? 1 : CHINESE_DIGITS[text.slice(0, tenIndex)];
+    const ones = tenIndex === text.length - 1 ? 0 : CHINESE_DIGITS[text.slice(tenIndex + 1)];
+    if (tens === undefined || ones === undefined) return null;
+    return tens * 10 + ones;
+}
+
+// Applied to width-folded, lowercased titles; the captured group is the numeral
+const SEASON_PATTERNS: RegExp[] = [
+    /\s*第\s*([\d零一二两三四五六七八九十]+)\s*[季期部]$/,
+    /\s*season\s*(\d+)$/,
+    /\s*(\d+)(?:st|nd|rd|th)\s*season$/,
+    /\s*第?(\d+)\s*シーズン$/,
+    /\s+s(\d+)$/,
+];
+
+/**
+ * Split a season suffix ("第二季", "Season 2", "2nd Season", "S2") off a title.
+ * The title is width-folded and lowercased first; season is null without a suffix.
+ */
+export function parseSeason(title: string): { base: string; season: number | null } {
+    const text = foldWidth(title || "").toLowerCase().trim();
+    for (const pattern of SEASON_PATTERNS) {
+        const match = text.match(pattern);
+        if (!match) continue;
+        const season = parseNumeral(match[1]);
+        if (season === null) continue;
+        return { base: text.slice(0, match.index).trim(), season };
+    }
+    return { base: text, season: null };
+}
+
+// ============================================================================
+// Title Normalization
+// ============================================================================
+
+/**
+ * Normalize a title for comparison: width, script variant and kana folding,
+ * then spaces and punctuation removed and case folded. Season suffixes are
+ * rewritten to one canonical "s<N>" tail; season 1 is the bare title.
+ */
+export function normalizeTitle(title: string): string {
+    if (!title) return "";
+
+    const { base, season } = parseSeason(title);
+    const folded = foldKana(foldParticles(foldChineseVariants(base)))
+        .replace(/\s+/g, "")
+        // Remove common punctuation and special chars
+        .replace(/[。、，！？：；""''「」『』【】（）\[\]().,!?:;'"－—·～~]/g, "")
+        // Remove all non-word chars except Chinese characters and kana
+        .replace(/[^\w\u4e00-\u9fa5\u3040-\u309f\u30a0-\u30ff]/g, "")
+        .trim();
+
+    if (!folded) return "";
+    return season !== null && season > 1 ? `${folded}s${season}` : folded;
+}
+
+// ============================================================================
+// Installment Markers
+// ============================================================================
+
+/**
+ * Which part of a franchise a title names. Two titles with different
+ * installments are related, never the same media.
+ */
+export interface Installment {
+    // "第二季", "Season 2", "2nd Season"; null when the title has no suffix
+    season: number | null;
+    // Trailing sequel numeral ("玩具总动员3", "Godfather II")
+    sequel: number | null;
+    // Story arc ("游郭篇", "Mugen Train Arc"), normalized
+    arc: string | null;
+    // Explicit 剧场版 / Movie marker
+    theatrical: boolean;
+}
+
+const THEATRICAL_PATTERN = /(?:剧场版|劇場版|电影版|電影版|映画|\b(?:the\s+)?movie\b)[\s:：\-·]*/;
+
+// The arc name must be set off from the base title, e.g. "鬼灭之刃 游郭篇"
+const ARC_PATTERNS: RegExp[] = [
+    /[\s:：\-·]+([^\s:：\-·]+?)\s*[篇编編章]$/,
+    /\s*[:：\-·]\s*([^:：\-·]+?)\s+arc$/,
+];
+
+const ROMAN_SEQUELS: Record<string, number> = {
+    ii: 2, iii: 3, iv: 4, v: 5, vi: 6, vii: 7, viii: 8, ix: 9, x: 10,
+};
+
+// One or two digits after a space, "part" or a CJK character; years like 2046 don't match
+const SEQUEL_PATTERN = /(?:\s+part\s+|\s|(?<=[\u4e00-\u9fa5\u3040-\u30ff]))(\d{1,2}|[ivx]+)$/;
+
+/**
+ * Split the installment markers off a title. `base` is what is left once
+ * every marker is removed (width-folded and lowercased, not normalized).
+ */
+export function parseInstallment(title: string): { base: string; installment: Installment } {
+    let text = foldWidth(title || "").toLowerCase().trim();
+    const installment: Installment = { season: null, sequel: null, arc: null, theatrical: false };
+
+    const theatrical = text.match(THEATRICAL_PATTERN);
+    if (theatrical) {
+        installment.theatrical = true;
+        text = (text.slice(0, theatrical.index) + " " + text.slice(theatrical.index! + theatrical[0].length)).trim();
+    }
+
+    for (const pattern of ARC_PATTERNS) {
+        const match = text.match(pattern);
+        if (match && match.index! > 0) {
+            installment.arc = normalizeTitle(match[1]);
+            text = text.slice(0, match.index).trim();
+            break;
+        }
+    }
+
+    const { base, season } = parseSeason(text);
+    installment.season = season;
+    text = base;
+
+    const sequel = text.match(SEQUEL_PATTERN);
+    if (sequel && sequel.index! > 0) {
+        const value = /^\d+$/.test(sequel[1]) ? parseInt(sequel[1], 10) : ROMAN_SEQUELS[sequel[1]];
+        if (value) {
+            installment.sequel = value;
+            text = text.slice(0, sequel.index).trim();
+        }
+    }
+
+    return { base: text.replace(/[\s:：\-·]+$/, "").replace(/\s+/g, " "), installment };
+}
@@ -0,0 +1,89 @@
+// ============================================================================
+// Character Variant Tables
+// ============================================================================
+
+// Each entry is "<variant><simplified>". Covers the traditional characters and
+// Japanese shinjitai forms that show up in titles; unlisted characters pass through.
+const TRADITIONAL_PAIRS = `
+與与 專专 業业 東东 絲丝 兩两 嚴严 喪丧 個个 豐丰 臨临 為为 麗丽 舉举 義义 烏乌
+樂乐 喬乔 習习 鄉乡 書书 買买 亂乱 爭争 於于 虧亏 雲云 亞亚 產产 親亲 億亿 僅仅
+從从 倉仓 儀仪 們们 價价 眾众 衆众 優优 會会 傘伞 偉伟 傳传 傷伤 倫伦 偽伪 僞伪
+體体 餘余 俠侠 侶侣 偵侦 側侧 債债 傾倾 償偿 儲储 兒儿 黨党 蘭兰 關关 興兴 養养
+獸兽 岡冈 冊册 寫写 軍军 農农 馮冯 衝冲 決决 況况 凍冻 淨净 涼凉 減减 幾几 鳳凤
+憑凭 凱凯 擊击 劃划 劉刘 則则 剛刚 創创 刪删 別别 劑剂 劍剑 劇剧 勸劝 辦办 務务
+動动 勵励 勁劲 勞劳 勢势 勳勋 華华 協协 單单 賣卖 盧卢 衛卫 卻却 廠厂 廳厅 曆历
+歷历 厲厉 壓压 厭厌 廁厕 廂厢 廈厦 廚厨 縣县 參参 雙双 發发 髮发 變变 敘叙 疊叠
+葉叶 號号 嘆叹 嚇吓 呂吕 嗎吗 聽听 啟启 啓启 吳吴 員员 響响 啞哑 喚唤 嘯啸 囑嘱
+團团 園园 圍围 圖图 國国 圓圆 聖圣 場场 壞坏 塊块 堅坚 壇坛 墳坟 墜坠 壘垒 執执
+報报 塗涂 壺壶 壽寿 夠够 夢梦 頭头 夾夹 奪夺 奮奋 婦妇 媽妈 嬌娇 孫孙 學学 寧宁
+寶宝 實实 寵宠 審审 憲宪 寬宽 賓宾 寢寝 對对 尋寻 導导 將将 爾尔 塵尘 嘗尝 堯尧
+層层 屬属 歲岁 豈岂 島岛 嶺岭 嶽岳 巖岩 崗岗 嶼屿 幣币 帥帅 師师 帳帐 帶带 幫帮
+幹干 廣广 莊庄 慶庆 廬庐 庫库 應应 廟庙 龐庞 廢废 開开 異异 棄弃 張张 彌弥 彎弯
+彈弹 強强 歸归 當当 錄录 徹彻 徑径 後后 憶忆 懷怀 態态 憐怜 總总 戀恋 懇恳 惡恶
+惱恼 懸悬 驚惊 懼惧 慘惨 懲惩 慚惭 慣惯 憤愤 願愿 懶懒 憂忧 戲戏 戰战 戶户 撲扑
+擴扩 掃扫 揚扬 擾扰 撫抚 搶抢 護护 擔担 擬拟 擁拥 攔拦 撥拨 擇择 掛挂 撈捞 損损
+換换 據据 擲掷 攜携 攝摄 擺摆 搖摇 擠挤 數数 斷断 無无 舊旧 時时 晝昼 顯显 晉晋
+曬晒 曉晓 暫暂 暈晕 術术 機机 殺杀 雜杂 權权 條条 來来 楊杨 極极 構构 棗枣 櫃柜
+標标 棧栈 欄栏 樹树 樣样 橋桥 檢检 樓楼 歡欢 歐欧 殘残 殲歼 毀毁 氣气 漢汉 湯汤
+溝沟 沒没 淚泪 潑泼 澤泽 潔洁 灑洒 濃浓 濤涛 潤润 漲涨 漁渔 淵渊 淺浅 漸渐 溫温
+灣湾 濕湿 滿满 濾滤 濫滥 瀟潇 灘滩 滅灭 災灾 燈灯 靈灵 爐炉 點点 煉炼 爛烂 燒烧
+熱热 煥焕 燭烛 營营 愛爱 牆墙 犧牺 狀状 獨独 獄狱 獵猎 貓猫 獻献 環环 現现 瑪玛
+瓏珑 畫画 暢畅 療疗 癡痴 瘋疯 盡尽 監监 盤盘 盜盗 睜睁 礦矿 碼码 磚砖 確确 禮礼
+禍祸 禪禅 禦御 離离 種种 積积 稱称 穩稳 窮穷 竊窃 競竞 筆笔 節节 範范 築筑 簡简
+簽签 籃篮 類类 糧粮 緊紧 紅红 約约 級级 紀纪 紋纹 納纳 純纯 紙纸 線线 練练 組组
+細细 終终 經经 結结 絕绝 給给 統统 綁绑 綠绿 網网 維维 綿绵 緣缘 編编 緩缓 織织
+繪绘 繼继 續续 纏缠 綱纲 緋绯 絆绊 罰罚 羅罗 罷罢 聯联 聰聪 聲声 職职 肅肃 腦脑
+臉脸 膽胆 膚肤 艦舰 艷艳 藝艺 蘇苏 萬万 藥药 蒼苍 蓋盖 蓮莲 蕭萧 薩萨 藍蓝 蕩荡
+蘋苹 虛虚 蟲虫 蠻蛮 補补 裝装 襲袭 裡里 裏里 製制 複复 復复 見见 規规 視视 覺觉
+覽览 觀观 觸触 計计 記记 訓训 議议 討讨 讓让 訊讯 許许 論论 設设 訪访 證证 評评
+識识 詞词 譯译 試试 詩诗 誠诚 話话 誕诞 該该 詳详 語语 誤误 說说 請请 讀读 課课
+誰谁 調调 談谈 謀谋 謊谎 謎谜 謝谢 謠谣 謹谨 譜谱 貝贝 負负 財财 責责 敗败 貨货
+質质 販贩 貪贪 貧贫 購购 貴贵 費费 賀贺 資资 賊贼 賞赏 賠赔 賴赖 贊赞 贏赢 贖赎
+貞贞 趕赶 趙赵 躍跃 蹤踪 車车 軌轨 軒轩 軟软 輕轻 載载 輔辅 輝辉 輪轮 轉转 轟轰
+辭辞 邊边 遼辽 達达 遷迁 過过 運运 還还 這这 進进 遠远 違违 連连 遲迟 適适 選选
+遺遗 遊游 郵邮 鄰邻 鄭郑 醫医 醬酱 釋释 鐵铁 針针 釣钓 鈴铃 銀银 銅铜 銷销 鋼钢
+鋒锋 錢钱 錯错 鍵键 鎖锁 鎮镇 鏡镜 鐘钟 鍾钟 鑰钥 鏈链 鎧铠 銃铳 鐮镰 長长 門门
+閃闪 閉闭 問问 閒闲 間间 閣阁 閱阅 闊阔 闖闯 隊队 陽阳 陰阴 陣阵 階阶 際际 陸陆
+陳陈 險险 隨随 隱隐 隻只 難难 雞鸡 電电 霧雾 靜静 韓韩 頁页 頂顶 項项 順顺 須须
+預预 領领 頻频 題题 額额 顏颜 顧顾 頓顿 風风 飛飞 飯饭 飲饮 餓饿 館馆 馬马 駕驾
+騎骑 騙骗 驗验 驅驱 鬥斗 鬪斗 鬧闹 魚鱼 鮮鲜 鳥鸟 鳴鸣 鴨鸭 鷹鹰 麥麦 黃黄 齊齐
+齒齿 龍龙 龜龟 麼么 麵面 週周 覇霸 殭僵 黴霉 鍊炼 諜谍 鋸锯 獅狮 墮堕
+鎗枪 槍枪 鐳镭 狹狭 癮瘾 鑽钻 轎轿 嬰婴 鸚鹦 鵡鹉 鶴鹤 鷺鹭 鯨鲸 鯊鲨 蝦虾 宮宫
+駿骏
+`;
+
+const SHINJITAI_PAIRS = `
+撃击 戦战 図图 広广 転转 伝传 読读 帰归 鉄铁 関关 闘斗 薬药 気气 楽乐 亜亚 悪恶
+圧压 囲围 壱一 稲稻 隠隐 営营 栄荣 駅驿 円圆 塩盐 縁缘 応应 桜樱 穏稳 仮假 価价
+壊坏 懐怀 絵绘 拡扩 殻壳 覚觉 渇渴 巻卷 陥陷 勧劝 歓欢 観观 顔颜 偽伪 戯戏 犠牺
+拠据 挙举 峡峡 暁晓 駆驱 勲勋 径径 茎茎 恵惠 掲揭 渓溪 経经 蛍萤 軽轻 継继 鶏鸡
+県县 倹俭 剣剑 険险 圏圈 検检 権权 顕显 験验 厳严 効效 鉱矿 黒黑 砕碎 済济 斎斋
+剤剂 雑杂 桟栈 賛赞 糸丝 歯齿 児儿 釈释 収收 従从 渋涩 獣兽 縦纵 粛肃 処处 緒绪
+渉涉 焼烧 証证 奨奖 乗乘 浄净 剰剩 畳叠 縄绳 壌壤 嬢娘 譲让 醸酿 粋粹 酔醉 穂穗
+髄髓 瀬濑 斉齐 摂摄 説说 専专 践践 銭钱 繊纤 双双 荘庄 捜搜 挿插 巣巢 総总 騒骚
+増增 蔵藏 贈赠 続续 帯带 滝泷 択择 沢泽 単单 団团 断断 弾弹 遅迟 鋳铸 庁厅 徴征
+聴听 塚冢 逓递 稲稻 徳德 悩恼 脳脑 廃废 拝拜 売卖 発发 髪发 抜拔 晩晚 浜滨 頻频
+払拂 仏佛 併并 並并 変变 辺边 舗铺 歩步 豊丰 毎每 満满 麺面 黙默 訳译 揺摇 様样
+謡谣 頼赖 覧览 欄栏 竜龙 虜虏 両两 猟猎 緑绿 涙泪 塁垒 齢龄 暦历 歴历 錬炼 労劳
+録录 亀龟 戻戾 弐二 呪咒 廻回
+`;
+
+function parsePairs(table: string, into: Map<string, string>): void {
+    for (const pair of table.split(/\s+/)) {
+        const [variant, simplified] = [...pair];
+        if (variant && simplified && variant !== simplified) {
+            into.set(variant, simplified);
+        }
+    }
+}
+
+export const CHINESE_VARIANTS = new Map<string, string>();
+parsePairs(TRADITIONAL_PAIRS, CHINESE_VARIANTS);
+parsePairs(SHINJITAI_PAIRS, CHINESE_VARIANTS);
+
+// Possessive particles that translations use interchangeably
+// (進撃の巨人 / 进击的巨人, 鋼の錬金術師 / 钢之炼金术师)
+export const TITLE_PARTICLES = new Map<string, string>([
+    ["の", "的"],
+    ["之", "的"],
+]);
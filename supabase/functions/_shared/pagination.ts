@@ -0,0 +1,149 @@
+import { areSameMedia } from "./dedup.ts";
+import { AppError } from "./errors.ts";
+import { MediaItem } from "./media.ts";
+import { ProviderStatus } from "./providers/http.ts";
+import { ProviderPosition, SearchType } from "./providers/types.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Title fingerprint of an item already returned: [titleZh, titleOriginal, year]
+export type SeenTitle = [string, string, string];
+
+export interface SearchCursor {
+    v: 1;
+    q: string;
+    t: SearchType;
+    page: number;
+    // Next position per provider; null once a provider is exhausted
+    positions: Record<string, ProviderPosition | null>;
+    seen: SeenTitle[];
+    // Pages in a row each provider has failed on; absent once it answers
+    failures?: Record<string, number>;
+}
+
+/**
+ * Where a search stands on the page being built
+ */
+export interface PageState {
+    query: string;
+    type: SearchType;
+    page: number;
+    seen: SeenTitle[];
+    failures: Record<string, number>;
+}
+
+/**
+ * How one provider fared on the page: its next position, or on failure the
+ * one to retry
+ */
+export interface PageOutcome {
+    name: string;
+    status: ProviderStatus;
+    next: ProviderPosition | null;
+}
+
+// Keep cursors small; older pages rarely resurface this deep into a search
+const MAX_SEEN_TITLES = 300;
+
+// Pages a failing provider is retried on before its results are given up
+export const MAX_PROVIDER_FAILURES = 2;
+
+// Failures that won't clear up by the next page: an anti-bot block, or a
+// circuit that stays open longer than a user pages
+const FINAL_FAILURES: ProviderStatus[] = ["blocked", "circuit_open"];
+
+// ============================================================================
+// Cursor Encoding
+// ============================================================================
+
+export function normalizeQuery(query: string): string {
+    return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export function encodeCursor(cursor: SearchCursor): string {
+    const bytes = new TextEncoder().encode(JSON.stringify(cursor));
+    let binary = "";
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeCursor(value: string, query: string, type: SearchType): SearchCursor {
+    let cursor: SearchCursor;
+    try {
+        const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+        const binary = atob(base64);
+        const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+        cursor = JSON.parse(new TextDecoder().decode(bytes));
+    } catch (_) {
+        throw new AppError("bad_request", "Invalid cursor");
+    }
+
+    if (cursor?.v !== 1 || typeof cursor.page !== "number" || !cursor.positions) {
+        throw new AppError("bad_request", "Invalid cursor");
+    }
+    if (cursor.q !== normalizeQuery(query) || cursor.t !== type) {
+        throw new AppError("bad_request", "Cursor does not belong to this query and type");
+    }
+    return cursor;
+}
+
+// ============================================================================
+// Paging
+// ============================================================================
+
+/**
+ * Drop items that match something an earlier page already returned
+ */
+export function excludeSeen(results: MediaItem[], seen: SeenTitle[]): MediaItem[] {
+    if (seen.length === 0) return results;
+    const seenItems = seen.map(([titleZh, titleOriginal, year]) => ({ titleZh, titleOriginal, year } as MediaItem));
+    return results.filter((item) => !seenItems.some((prev) => areSameMedia(prev, item)));
+}
+
+/**
+ * Cursor for the page after this one, or null when every provider is
+ * exhausted. A failed provider is retried at the same position on the next
+ * MAX_PROVIDER_FAILURES - 1 pages, and at once given up when blocked or its
+ * circuit is open.
+ */
+export function buildNextCursor(
+    state: PageState,
+    outcomes: PageOutcome[],
+    pageResults: MediaItem[]
+): string | null {
+    const positions: Record<string, ProviderPosition | null> = {};
+    const failures: Record<string, number> = {};
+    for (const { name, status, next } of outcomes) {
+        if (status === "ok") {
+            positions[name] = next;
+            continue;
+        }
+        const failed = (state.failures[name] ?? 0) + 1;
+        if (FINAL_FAILURES.includes(status) || failed >= MAX_PROVIDER_FAILURES) {
+            positions[name] = null;
+        } else {
+            positions[name] = next;
+            failures[name] = failed;
+        }
+    }
+    if (!Object.values(positions).some((position) => position !== null)) return null;
+
+    const seen: SeenTitle[] = [
+        ...state.seen,
+        ...pageResults
+            .flatMap((item) => [item, ...(item.related || [])])
+            .map((item): SeenTitle => [item.titleZh, item.titleOriginal, item.year]),
+    ].slice(-MAX_SEEN_TITLES);
+
+    return encodeCursor({
+        v: 1,
+        q: normalizeQuery(state.query),
+        t: state.type,
+        page: state.page + 1,
+        positions,
+        seen,
+        ...(Object.keys(failures).length > 0 ? { failures } : {}),
+    });
+}
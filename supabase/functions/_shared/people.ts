@@ -0,0 +1,114 @@
+import { areSameMedia } from "./dedup.ts";
+import { MediaItem } from "./media.ts";
+import { fuzzySimilarity } from "./normalize/similarity.ts";
+import { normalizeTitle } from "./normalize/title.ts";
+
+// ============================================================================
+// Person
+// ============================================================================
+
+export interface PersonSource {
+    sourceType: string;
+    sourceId: string;
+    sourceUrl: string;
+}
+
+export interface Person {
+    // Display name, Chinese where a source knows one
+    name: string;
+    nameOriginal: string;
+    // Every other spelling the sources list (romanized, traditional, ...)
+    aliases: string[];
+    avatarUrl: string;
+    // Departments / occupations as the sources word them ("Directing", "声优")
+    roles: string[];
+    // Every source this person was found on, the primary first
+    sources: PersonSource[];
+    // A few well-known works, from the search results or, for the top hits
+    // of sources whose search lists none, their works pages
+    knownFor: MediaItem[];
+    // Full list of works, merged across sources; only for the top matches
+    filmography?: MediaItem[];
+}
+
+function namesOf(person: Person): string[] {
+    return [person.name, person.nameOriginal, ...person.aliases]
+        .map((name) => normalizeTitle(name))
+        .filter((name) => name);
+}
+
+// Names this close count as one spelling once a shared work confirms them
+const MIN_NAME_SIMILARITY = 0.8;
+
+/**
+ * Same person on two sources: a shared name (after script folding, so
+ * 宮崎駿 and 宫崎骏 agree), or a close one confirmed by a shared known-for
+ * work. A film's director and lead share works but not names, and two ids on
+ * one source are always two people.
+ */
+export function areSamePerson(a: Person, b: Person): boolean {
+    const conflict = a.sources.some((source) =>
+        b.sources.some((other) => other.sourceType === source.sourceType && other.sourceId !== source.sourceId)
+    );
+    if (conflict) return false;
+
+    const names = namesOf(a);
+    const otherNames = namesOf(b);
+    if (otherNames.some((name) => names.includes(name))) return true;
+
+    const closeName = names.some((name) =>
+        otherNames.some((other) => fuzzySimilarity(name, other) >= MIN_NAME_SIMILARITY)
+    );
+    return closeName && a.knownFor.some((work) => b.knownFor.some((other) => areSameMedia(work, other)));
+}
+
+function unique(values: string[]): string[] {
+    return [...new Set(values.filter((value) => value))];
+}
+
+export function mergePeople(primary: Person, secondary: Person): Person {
+    const merged: Person = {
+        ...primary,
+        aliases: unique([
+            ...primary.aliases,
+            secondary.name,
+            secondary.nameOriginal,
+            ...secondary.aliases,
+        ]).filter((alias) => alias !== primary.name && alias !== primary.nameOriginal),
+        roles: unique([...primary.roles, ...secondary.roles]),
+        sources: [...primary.sources, ...secondary.sources],
+        knownFor: [
+            ...primary.knownFor,
+            ...secondary.knownFor.filter(
+                (work) => !primary.knownFor.some((known) => areSameMedia(known, work))
+            ),
+        ],
+    };
+
+    if (!merged.avatarUrl) merged.avatarUrl = secondary.avatarUrl;
+    // Prefer a Chinese display name when only the secondary has one
+    if (!/[一-龥]/.test(merged.name) && /[一-龥]/.test(secondary.name)) {
+        merged.aliases = unique([merged.name, ...merged.aliases.filter((a) => a !== secondary.name)]);
+        merged.name = secondary.name;
+    }
+
+    return merged;
+}
+
+/**
+ * Merge person results from every source, keeping first-seen order
+ */
+export function deduplicatePeople(people: Person[]): Person[] {
+    const unique: Person[] = [];
+
+    for (const person of people) {
+        const existingIndex = unique.findIndex((existing) => areSamePerson(existing, person));
+        if (existingIndex === -1) {
+            unique.push(person);
+        } else {
+            unique[existingIndex] = mergePeople(unique[existingIndex], person);
+        }
+    }
+
+    return unique;
+}
@@ -0,0 +1,782 @@
+import * as cheerio from "https://esm.sh/cheerio@1.0.0-rc.12";
+import { MediaCredit, MediaItem, createMediaItem } from "../media.ts";
+import { Person } from "../people.ts";
+import { DESKTOP_USER_AGENT, isNotFound, providerFetch } from "./http.ts";
+import {
+    MediaProvider,
+    ProviderDetailOptions,
+    ProviderPage,
+    ProviderPersonOptions,
+    ProviderSearchOptions,
+} from "./types.ts";
+
+// ============================================================================
+// Bangumi Search (Web Scraping)
+// ============================================================================
+
+// Hits per page of our results; each one costs a detail page load
+const BANGUMI_PAGE_SIZE = 10;
+
+async function searchBangumi(
+    query: string,
+    { signal, position, filters }: ProviderSearchOptions
+): Promise<ProviderPage> {
+    const page = position?.page ?? 1;
+    const index = position?.index ?? 0;
+
+    const encodedQuery = encodeURIComponent(query);
+    let url = `https://bgm.tv/subject_search/${encodedQuery}?cat=2`;
+    if (page > 1) url += `&page=${page}`;
+
+    const response = await providerFetch("Bangumi search", url, {
+        headers: {
+            "User-Agent": DESKTOP_USER_AGENT,
+            Cookie: "chii_searchDateLine=0",
+        },
+    }, signal);
+
+    const html = await response.text();
+    const $ = cheerio.load(html);
+    const items: any[] = [];
+
+    $("#browserItemList > li").each((_: number, element: any) => {
+        items.push(element);
+    });
+
+    // Drop hits outside a year filter before paying for their detail pages;
+    // the air date is already in the search listing
+    const yearRange = filters?.year;
+    if (yearRange) {
+        const inRange = items.filter((element) => {
+            const { year } = parseInfoText($(element).find(".info.tip").text().trim(), "");
+            const value = parseInt(year, 10);
+            return value >= yearRange.min && value <= yearRange.max;
+        });
+        items.splice(0, items.length, ...inRange);
+    }
+
+    // Detail pages load through the outbound client, which caps how many hit bgm.tv at once
+    const limitedItems = items.slice(index, index + BANGUMI_PAGE_SIZE);
+    const results = await Promise.all(
+        limitedItems.map((item) => parseBangumiItem($, item, signal))
+    );
+
+    // Continue within this search page first, then follow the pager
+    let next: ProviderPage["next"] = null;
+    if (index + BANGUMI_PAGE_SIZE < items.length) {
+        next = { page, index: index + BANGUMI_PAGE_SIZE };
+    } else if (hasBangumiPage($, page + 1)) {
+        next = { page: page + 1, index: 0 };
+    }
+
+    return {
+        items: results.filter((item): item is MediaItem => item !== null),
+        next,
+    };
+}
+
+/**
+ * First page of search hits from the listing alone, without detail pages,
+ * for callers that match many titles at once
+ */
+export async function searchBangumiListing(query: string, signal: AbortSignal): Promise<MediaItem[]> {
+    const $ = await fetchBangumiPage(
+        "Bangumi search",
+        `https://bgm.tv/subject_search/${encodeURIComponent(query)}?cat=2`,
+        signal
+    );
+    return $("#browserItemList > li")
+        .toArray()
+        .map((el: any) => parseBangumiListing($, el))
+        .filter((item: MediaItem | null): item is MediaItem => item !== null);
+}
+
+function hasBangumiPage($: cheerio.CheerioAPI, page: number): boolean {
+    return $("#multipage a.p")
+        .toArray()
+        .some((el: any) => ($(el).attr("href") || "").includes(`page=${page}`));
+}
+
+export async function parseBangumiItem(
+    $: cheerio.CheerioAPI,
+    element: any,
+    signal: AbortSignal
+): Promise<MediaItem | null> {
+    const media = parseBangumiListing($, element);
+    if (!media) return null;
+
+    // Fetch detail for summary and duration
+    try {
+        applyBangumiDetail(media, await fetchBangumiDetail(media.sourceId, signal));
+    } catch (e) {
+        // Continue without detail
+    }
+
+    return media;
+}
+
+/**
+ * One entry of a subject listing (search results, a person's works, a user's
+ * collection) from the listing alone; the summary is left as a placeholder
+ */
+export function parseBangumiListing($: cheerio.CheerioAPI, element: any): MediaItem | null {
+    try {
+        const $item = $(element);
+        const titleElement = $item.find("h3 > a.l");
+        if (!titleElement.length) return null;
+
+        const href = titleElement.attr("href") || "";
+        const sourceId = href.split("/").pop() || "";
+        if (!sourceId) return null;
+
+        const titleZh = titleElement.text().trim() || "未知标题";
+        const titleOriginal = $item.find("h3 > small.grey").text().trim() || "";
+
+        // Poster
+        let posterUrl = "";
+        const imgElement = $item.find(".subjectCover img");
+        if (imgElement.length) {
+            let src = imgElement.attr("src") || "";
+            if (src.startsWith("//")) src = `https:${src}`;
+            posterUrl = src.replace(/\/s\/|\/m\//, "/l/");
+        }
+
+        // Info text (contains date, episodes, staff)
+        const infoText = $item.find(".info.tip").text().trim() || "";
+
+        // Rating
+        let rating = 0;
+        const ratingElement = $item.find(".rateInfo small.fade");
+        if (ratingElement.length) {
+            rating = parseFloat(ratingElement.text()) || 0;
+        }
+
+        // Parse info text
+        const { releaseDate, year, duration, staff } = parseInfoText(infoText, "");
+
+        return createMediaItem({
+            sourceType: "bgm",
+            sourceId: sourceId,
+            sourceUrl: `https://bgm.tv/subject/${sourceId}`,
+            mediaType: "anime",
+            titleZh: titleZh,
+            titleOriginal: titleOriginal,
+            releaseDate: releaseDate,
+            duration: duration,
+            year: year,
+            posterUrl: posterUrl,
+            summary: "暂无简介",
+            staff: staff || "暂无制作信息",
+            rating: rating,
+            ratingBangumi: rating,
+        });
+    } catch (e) {
+        console.error("Error parsing Bangumi item:", e);
+        return null;
+    }
+}
+
+interface BangumiSubjectExtras {
+    summary?: string;
+    duration?: string;
+    releaseDate?: string;
+    year?: string;
+    rating?: number;
+    episodes: BangumiEpisode[];
+}
+
+async function fetchBangumiDetail(sourceId: string, signal: AbortSignal): Promise<BangumiSubjectExtras> {
+    const $ = await fetchBangumiPage("Bangumi detail", `https://bgm.tv/subject/${sourceId}`, signal);
+
+    const result: BangumiSubjectExtras = { episodes: parseBangumiEpisodes($) };
+
+    // Summary
+    const summaryEl = $("#subject_summary");
+    if (summaryEl.length) {
+        let text = summaryEl.text();
+        text = text.replace(/\u00A0/g, "\n");
+        text = text.replace(/\s{4,}/g, "\n");
+        result.summary = text.trim();
+    }
+
+    // Duration (episodes) and air date
+    $("#infobox li").each((_: number, el: any) => {
+        const text = $(el).text();
+        if (text.includes("话数:")) {
+            let episodes = text.replace("话数:", "").trim();
+            if (/^\d+$/.test(episodes)) {
+                episodes += "集";
+            }
+            result.duration = episodes;
+        }
+        if (text.includes("放送开始:") && !result.releaseDate) {
+            const { releaseDate, year } = parseInfoText(text.replace("放送开始:", "").trim(), "");
+            if (year !== "----") {
+                result.releaseDate = releaseDate;
+                result.year = year;
+            }
+        }
+    });
+
+    const rating = parseFloat($(".global_score .number").first().text());
+    if (rating) result.rating = rating;
+
+    return result;
+}
+
+/**
+ * Listing entry plus what only the subject page has. Date and rating are
+ * kept from the listing when it had them (search hits always do).
+ */
+function applyBangumiDetail(media: MediaItem, detail: BangumiSubjectExtras): void {
+    if (detail.summary) media.summary = detail.summary;
+    if (detail.duration) media.duration = detail.duration;
+    if (detail.releaseDate && media.year === "----") {
+        media.releaseDate = detail.releaseDate;
+        media.year = detail.year!;
+    }
+    if (detail.rating && !media.rating) {
+        media.rating = detail.rating;
+        media.ratingBangumi = detail.rating;
+        media.sources = media.sources?.map((source) => ({ ...source, rating: detail.rating! }));
+    }
+}
+
+/**
+ * Main episodes from the subject page's progress list; specials follow a
+ * subtitle row and are skipped. Air dates come from the episode popups.
+ */
+function parseBangumiEpisodes($: cheerio.CheerioAPI): BangumiEpisode[] {
+    const episodes: BangumiEpisode[] = [];
+    for (const el of $("ul.prg_list > li").toArray()) {
+        if ($(el).hasClass("subtitle")) break;
+
+        const link = $(el).find("a").first();
+        const number = parseInt(link.text(), 10);
+        if (!Number.isFinite(number)) continue;
+
+        const popup = link.attr("rel") || "";
+        const tip = popup.startsWith("#") ? $(popup).find("span.tip").text() : "";
+        episodes.push({
+            number: number,
+            title: (link.attr("title") || "").replace(/^ep\.\d+\s*/i, "").trim(),
+            airDate: tip.match(/首播[:：]\s*(\d{4}-\d{2}-\d{2})/)?.[1] ?? null,
+        });
+    }
+    return episodes;
+}
+
+// ============================================================================
+// Bangumi Subject Detail
+// ============================================================================
+
+// Infobox keys that are reported as crew, in display order
+const BANGUMI_CREW_KEYS = ["导演", "原作", "脚本", "系列构成", "人物设定", "音乐", "动画制作"];
+
+async function fetchBangumiPage(label: string, url: string, signal: AbortSignal) {
+    const response = await providerFetch(label, url, {
+        headers: {
+            "User-Agent": DESKTOP_USER_AGENT,
+            Cookie: "chii_searchDateLine=0",
+        },
+    }, signal);
+    return cheerio.load(await response.text());
+}
+
+/**
+ * Full detail for one subject: the subject page plus, fail-soft,
+ * its characters page for cast and voice actors
+ */
+async function bangumiDetail(
+    sourceId: string,
+    { signal }: ProviderDetailOptions
+): Promise<MediaItem | null> {
+    let $: cheerio.CheerioAPI;
+    try {
+        $ = await fetchBangumiPage("Bangumi detail", `https://bgm.tv/subject/${sourceId}`, signal);
+    } catch (e) {
+        if (isNotFound(e)) return null;
+        throw e;
+    }
+    const media = parseBangumiSubject($, sourceId);
+    if (!media) return null;
+
+    let cast: MediaCredit[] = [];
+    try {
+        cast = await fetchBangumiCast(sourceId, signal);
+    } catch (e) {
+        // Continue without characters
+    }
+    media.actors = cast.slice(0, 5).map((c) => c.name);
+    media.cast = cast;
+    return media;
+}
+
+/**
+ * Everything the subject page itself has: titles, infobox, crew and tags.
+ * Cast comes from the characters page and is left empty.
+ */
+function parseBangumiSubject($: cheerio.CheerioAPI, sourceId: string): MediaItem | null {
+    const titleElement = $("h1.nameSingle > a");
+    if (!titleElement.length) return null;
+
+    const info: Record<string, string> = {};
+    $("#infobox li").each((_: number, el: any) => {
+        const key = $(el).find("span.tip").text().replace(/[:：]\s*$/, "").trim();
+        if (!key || info[key]) return;
+        info[key] = $(el).text().replace(/^[^:：]*[:：]/, "").trim();
+    });
+
+    const titleOriginal = titleElement.text().trim();
+    const titleZh = info["中文名"] || titleElement.attr("title") || titleOriginal || "未知标题";
+
+    let posterUrl = $("#bangumiInfo a.thickbox.cover").attr("href") || "";
+    if (posterUrl.startsWith("//")) posterUrl = `https:${posterUrl}`;
+
+    let summary = "暂无简介";
+    const summaryEl = $("#subject_summary");
+    if (summaryEl.length) {
+        summary = summaryEl.text().replace(/\u00A0/g, "\n").replace(/\s{4,}/g, "\n").trim() || summary;
+    }
+
+    const rating = parseFloat($(".global_score .number").first().text()) || 0;
+
+    // Air date and episode count come from the same infobox the search page summarises
+    const dateText = info["放送开始"] || info["上映年度"] || info["发售日"] || "";
+    let duration = info["话数"] || "";
+    if (/^\d+$/.test(duration)) duration += "集";
+    const { releaseDate, year } = parseInfoText(dateText, duration);
+
+    const crew: MediaCredit[] = [];
+    for (const role of BANGUMI_CREW_KEYS) {
+        for (const name of splitBangumiNames(info[role])) {
+            crew.push({ name, role });
+        }
+    }
+    const directors = crew.filter((c) => c.role === "导演").map((c) => c.name);
+
+    const genres = $(".subject_tag_section a.l span")
+        .toArray()
+        .slice(0, 5)
+        .map((el: any) => $(el).text().trim())
+        .filter((tag: string) => tag);
+
+    const media = createMediaItem({
+        sourceType: "bgm",
+        sourceId: sourceId,
+        sourceUrl: `https://bgm.tv/subject/${sourceId}`,
+        mediaType: "anime",
+        titleZh: titleZh,
+        titleOriginal: titleOriginal === titleZh ? "" : titleOriginal,
+        releaseDate: releaseDate,
+        duration: duration || "未知",
+        year: year,
+        posterUrl: posterUrl,
+        summary: summary,
+        staff: crew.map((c) => `${c.role}: ${c.name}`).join(" / ") || "暂无制作信息",
+        directors: directors,
+        rating: rating,
+        ratingBangumi: rating,
+        genres: genres,
+    });
+    media.crew = crew;
+    return media;
+}
+
+/**
+ * Characters page: one credit per voice actor, with the character as the role
+ */
+async function fetchBangumiCast(sourceId: string, signal: AbortSignal): Promise<MediaCredit[]> {
+    const $ = await fetchBangumiPage(
+        "Bangumi characters",
+        `https://bgm.tv/subject/${sourceId}/characters`,
+        signal
+    );
+
+    const cast: MediaCredit[] = [];
+    $("#columnInSubjectA .light_odd, #columnInSubjectA .light_even").each((_: number, el: any) => {
+        const $character = $(el);
+        const role = $character.find("h2 a.l").first().text().trim();
+        $character.find(".actorBadge").each((_: number, badge: any) => {
+            const name = $(badge).find("a.l").first().text().trim();
+            if (!name) return;
+            let avatarUrl = $(badge).find("img.avatar").attr("src") || "";
+            if (avatarUrl.startsWith("//")) avatarUrl = `https:${avatarUrl}`;
+            cast.push(avatarUrl ? { name, role, avatarUrl } : { name, role });
+        });
+    });
+    return cast;
+}
+
+function splitBangumiNames(value: string | undefined): string[] {
+    if (!value) return [];
+    return value
+        .split(/[、，,]/)
+        .map((name) => name.trim())
+        .filter((name) => name);
+}
+
+// ============================================================================
+// Bangumi Calendar
+// ============================================================================
+
+export const BANGUMI_WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"] as const;
+
+export type BangumiWeekday = typeof BANGUMI_WEEKDAYS[number];
+
+export interface BangumiEpisode {
+    number: number;
+    title: string;
+    // "YYYY-MM-DD" of the first broadcast; null until announced
+    airDate: string | null;
+}
+
+export interface BangumiCalendarEntry {
+    // Weekday bgm.tv lists the show under (UTC+8)
+    weekday: BangumiWeekday;
+    media: MediaItem;
+    // Main episodes; empty until the subject page is loaded
+    episodes: BangumiEpisode[];
+}
+
+/**
+ * This week's airing anime from the bgm.tv calendar. The calendar only has
+ * titles and covers; loadBangumiCalendarDetail fills in the rest.
+ */
+export async function fetchBangumiCalendar(signal: AbortSignal): Promise<BangumiCalendarEntry[]> {
+    const $ = await fetchBangumiPage("Bangumi calendar", "https://bgm.tv/calendar", signal);
+
+    const entries: BangumiCalendarEntry[] = [];
+    $("#colunmSingle .BgmCalendar ul.large > li.week").each((_: number, week: any) => {
+        const dayClass = ($(week).find("dt").attr("class") || "").split(/\s+/);
+        const weekday = BANGUMI_WEEKDAYS.find((day) => dayClass.includes(day));
+        if (!weekday) return;
+
+        $(week).find("dd ul.coverList > li").each((_: number, el: any) => {
+            const media = parseBangumiCalendarItem($, el);
+            if (media) entries.push({ weekday, media, episodes: [] });
+        });
+    });
+    return entries;
+}
+
+function parseBangumiCalendarItem($: cheerio.CheerioAPI, element: any): MediaItem | null {
+    const $item = $(element);
+    const link = $item.find(".info p a.nav").first().length
+        ? $item.find(".info p a.nav").first()
+        : $item.find(".info a").first();
+    const sourceId = (link.attr("href") || "").match(/\/subject\/(\d+)/)?.[1];
+    const titleZh = link.text().trim();
+    if (!sourceId || !titleZh) return null;
+
+    const titleOriginal = $item.find(".info small em").first().text().trim();
+
+    // The cover is the item's inline background image
+    let posterUrl = ($item.attr("style") || "").match(/url\('?([^')]+)'?\)/)?.[1] || "";
+    if (posterUrl.startsWith("//")) posterUrl = `https:${posterUrl}`;
+    posterUrl = posterUrl.replace(/\/[sgcm]\//, "/l/");
+
+    return createMediaItem({
+        sourceType: "bgm",
+        sourceId: sourceId,
+        sourceUrl: `https://bgm.tv/subject/${sourceId}`,
+        mediaType: "anime",
+        titleZh: titleZh,
+        titleOriginal: titleOriginal === titleZh ? "" : titleOriginal,
+        posterUrl: posterUrl,
+    });
+}
+
+/**
+ * Summary, episode count, air date, rating and the episode list from the
+ * subject page, the same way search hits are filled in
+ */
+export async function loadBangumiCalendarDetail(
+    entry: BangumiCalendarEntry,
+    signal: AbortSignal
+): Promise<BangumiCalendarEntry> {
+    const detail = await fetchBangumiDetail(entry.media.sourceId, signal);
+    const media = { ...entry.media };
+    applyBangumiDetail(media, detail);
+    return { ...entry, media, episodes: detail.episodes };
+}
+
+// ============================================================================
+// Bangumi Trends
+// ============================================================================
+
+// The first browser page, as the app's home page shows it
+const BANGUMI_TRENDS_LIMIT = 20;
+
+/**
+ * Anime bgm.tv currently ranks as trending, most active first. Built from the
+ * browser listing alone: summaries stay placeholders, which merges with other
+ * sources usually fill in.
+ */
+export async function fetchBangumiTrends(signal: AbortSignal): Promise<MediaItem[]> {
+    const $ = await fetchBangumiPage("Bangumi trends", "https://bgm.tv/anime/browser/?sort=trends", signal);
+    return $("#browserItemList > li")
+        .toArray()
+        .map((el: any) => parseBangumiListing($, el))
+        .filter((item: MediaItem | null): item is MediaItem => item !== null)
+        .slice(0, BANGUMI_TRENDS_LIMIT);
+}
+
+// ============================================================================
+// Bangumi Related Subjects
+// ============================================================================
+
+// Relations that lead to other animation; the rest are books, music and games
+const BANGUMI_ANIME_RELATIONS = new Set([
+    "前传",
+    "续集",
+    "总集篇",
+    "全集",
+    "番外篇",
+    "衍生",
+    "主线故事",
+    "不同演绎",
+    "相同世界观",
+    "不同世界观",
+]);
+
+/**
+ * A subject (without cast) and the animation its page lists as related, in
+ * page order. Related entries only have titles and covers.
+ */
+export async function fetchBangumiRelated(
+    sourceId: string,
+    signal: AbortSignal
+): Promise<{ subject: MediaItem | null; related: MediaItem[] }> {
+    const $ = await fetchBangumiPage("Bangumi related", `https://bgm.tv/subject/${sourceId}`, signal);
+
+    const related: MediaItem[] = [];
+    // Only the first entry of each relation group is labelled
+    let relation = "";
+    $(".subject_section ul.browserCoverMedium > li").each((_: number, el: any) => {
+        const $item = $(el);
+        relation = $item.find("span.sub").text().trim() || relation;
+        if (!BANGUMI_ANIME_RELATIONS.has(relation)) return;
+
+        const link = $item.find("a.title").first();
+        const relatedId = (link.attr("href") || "").match(/\/subject\/(\d+)/)?.[1];
+        const titleOriginal = link.text().trim();
+        // The cover link's tooltip carries the Chinese title when there is one
+        const titleZh = ($item.find("a.avatar").attr("title") || "").trim() || titleOriginal;
+        if (!relatedId || !titleZh || relatedId === sourceId) return;
+
+        let posterUrl = ($item.find("span.avatarNeue").attr("style") || "").match(/url\('?([^')]+)'?\)/)?.[1] || "";
+        if (posterUrl.startsWith("//")) posterUrl = `https:${posterUrl}`;
+        posterUrl = posterUrl.replace(/\/[sgcm]\//, "/l/");
+
+        related.push(createMediaItem({
+            sourceType: "bgm",
+            sourceId: relatedId,
+            sourceUrl: `https://bgm.tv/subject/${relatedId}`,
+            mediaType: "anime",
+            titleZh: titleZh,
+            titleOriginal: titleOriginal === titleZh ? "" : titleOriginal,
+            posterUrl: posterUrl,
+        }));
+    });
+
+    return { subject: parseBangumiSubject($, sourceId), related };
+}
+
+// ============================================================================
+// Bangumi People
+// ============================================================================
+
+// Search hits returned per query
+const BANGUMI_PEOPLE_LIMIT = 5;
+
+// The search page lists no works, so the top hits get theirs from their works
+// pages; without them a near-name match to another source can't be confirmed
+const BANGUMI_KNOWN_FOR_PEOPLE = 3;
+const BANGUMI_KNOWN_FOR_LIMIT = 5;
+const BANGUMI_KNOWN_FOR_TIMEOUT_MS = 5000;
+
+async function searchBangumiPeople(query: string, { signal }: ProviderPersonOptions): Promise<Person[]> {
+    const $ = await fetchBangumiPage(
+        "Bangumi person search",
+        `https://bgm.tv/mono_search/${encodeURIComponent(query)}?cat=prsn`,
+        signal
+    );
+
+    const people: Person[] = [];
+    $("#columnSearchB .light_odd, #columnSearchB .light_even").each((_: number, el: any) => {
+        const $person = $(el);
+        const link = $person.find("h2 a.l").first();
+        const sourceId = (link.attr("href") || "").match(/\/person\/(\d+)/)?.[1];
+        if (!sourceId) return;
+
+        // "宮崎駿 / 宫崎骏": original name, then the Chinese one in a tip span
+        const chineseName = link.find("span.tip").text().replace(/^\s*\/\s*/, "").trim();
+        const nameOriginal = link.clone().children().remove().end().text().trim();
+        if (!nameOriginal && !chineseName) return;
+
+        let avatarUrl = $person.find("a.avatar img").attr("src") || "";
+        if (avatarUrl.startsWith("//")) avatarUrl = `https:${avatarUrl}`;
+
+        const roles = $person.find(".prsn_info span.tip").first().text()
+            .split(/\s+/)
+            .filter((role: string) => role);
+
+        people.push({
+            name: chineseName || nameOriginal,
+            nameOriginal: nameOriginal || chineseName,
+            aliases: [],
+            avatarUrl: avatarUrl,
+            roles: roles,
+            sources: [{
+                sourceType: "bgm",
+                sourceId: sourceId,
+                sourceUrl: `https://bgm.tv/person/${sourceId}`,
+            }],
+            // Filled in by fillBangumiKnownFor
+            knownFor: [],
+        });
+    });
+
+    return await fillBangumiKnownFor(people.slice(0, BANGUMI_PEOPLE_LIMIT), signal);
+}
+
+/**
+ * Known-for works of the top hits from their works pages. Fail-soft: a person
+ * whose pages fail, or aren't loaded within the budget, keeps no works.
+ */
+async function fillBangumiKnownFor(people: Person[], signal: AbortSignal): Promise<Person[]> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal.addEventListener("abort", abort);
+    const timer = setTimeout(abort, BANGUMI_KNOWN_FOR_TIMEOUT_MS);
+
+    try {
+        return await Promise.all(people.map(async (person, i) => {
+            if (i >= BANGUMI_KNOWN_FOR_PEOPLE) return person;
+            try {
+                const works = await bangumiPersonWorks(person.sources[0].sourceId, { signal: controller.signal });
+                return { ...person, knownFor: works.slice(0, BANGUMI_KNOWN_FOR_LIMIT) };
+            } catch (e) {
+                if (!controller.signal.aborted) {
+                    console.error(`Bangumi works failed for person ${person.sources[0].sourceId}:`, e);
+                }
+                return person;
+            }
+        }));
+    } finally {
+        clearTimeout(timer);
+        signal.removeEventListener("abort", abort);
+    }
+}
+
+/**
+ * Staff credits from the works page plus, fail-soft, the voice page that
+ * lists a seiyuu's roles; a title both pages list is kept once
+ */
+async function bangumiPersonWorks(id: string, { signal }: ProviderPersonOptions): Promise<MediaItem[]> {
+    const $ = await fetchBangumiPage("Bangumi person works", `https://bgm.tv/person/${id}/works`, signal);
+    const works = $("#browserItemList > li")
+        .toArray()
+        .map((el: any) => parseBangumiListing($, el))
+        .filter((item: MediaItem | null): item is MediaItem => item !== null);
+
+    let voiced: MediaItem[] = [];
+    try {
+        voiced = await fetchBangumiVoiceWorks(id, signal);
+    } catch (e) {
+        // Continue with staff credits only
+    }
+
+    const seen = new Set(works.map((item: MediaItem) => item.sourceId));
+    return [...works, ...voiced.filter((item) => !seen.has(item.sourceId))];
+}
+
+/**
+ * Voice page: one entry per character, each listing the subjects it appears in
+ */
+async function fetchBangumiVoiceWorks(id: string, signal: AbortSignal): Promise<MediaItem[]> {
+    const $ = await fetchBangumiPage("Bangumi voice works", `https://bgm.tv/person/${id}/works/voice`, signal);
+
+    const works = new Map<string, MediaItem>();
+    $(".browserList .innerRightList li").each((_: number, el: any) => {
+        const link = $(el).find("h3 a.l, a.l").first();
+        const sourceId = (link.attr("href") || "").match(/\/subject\/(\d+)/)?.[1];
+        if (!sourceId || works.has(sourceId)) return;
+
+        const titleZh = link.text().trim() || "未知标题";
+        const titleOriginal = $(el).find("small.grey").first().text().trim();
+        works.set(sourceId, createMediaItem({
+            sourceType: "bgm",
+            sourceId: sourceId,
+            sourceUrl: `https://bgm.tv/subject/${sourceId}`,
+            mediaType: "anime",
+            titleZh: titleZh,
+            titleOriginal: titleOriginal === titleZh ? "" : titleOriginal,
+        }));
+    });
+    return [...works.values()];
+}
+
+export function parseInfoText(
+    infoText: string,
+    durationDetail: string
+): { releaseDate: string; year: string; duration: string; staff: string } {
+    const parts = infoText.split(" / ");
+    let releaseDate = "";
+    let year = "";
+    let duration = "";
+    let staff = "";
+
+    for (const part of parts) {
+        const trimmed = part.trim();
+
+        // Date pattern
+        const fullDateMatch = trimmed.match(/(\d{4})年(\d{1,2})月(\d{1,2})日/);
+        const monthMatch = trimmed.match(/(\d{4})年(\d{1,2})月/);
+        const yearMatch = trimmed.match(/(\d{4})年/);
+
+        if (fullDateMatch) {
+            const [, y, m, d] = fullDateMatch;
+            releaseDate = `${y}-${m.padStart(2, "0")}-${d.padStart(2, "0")}`;
+            year = y;
+        } else if (monthMatch) {
+            const [, y, m] = monthMatch;
+            releaseDate = `${y}-${m.padStart(2, "0")}-01`;
+            year = y;
+        } else if (yearMatch) {
+            year = yearMatch[1];
+            releaseDate = `${year}-01-01`;
+        } else if (/\d+话/.test(trimmed)) {
+            duration = trimmed;
+        } else {
+            if (staff) staff += " / ";
+            staff += trimmed;
+        }
+    }
+
+    // Override with detail if available
+    if (durationDetail) duration = durationDetail;
+    if (!duration) duration = "未知";
+    if (!releaseDate) releaseDate = "未知日期";
+    if (!year) year = "----";
+
+    return { releaseDate, year, duration, staff };
+}
+
+export const bangumiProvider: MediaProvider = {
+    id: "bgm",
+    name: "Bangumi",
+    mediaTypes: ["anime"],
+    completenessWeight: 8,
+    // bgm has lower priority for general searches but higher for anime-specific
+    relevanceWeight: 0,
+    // Scrapes the search page plus one detail page per hit, so it gets more headroom
+    timeoutMs: 10000,
+    cachePolicy: { ttl: 12 * 3600, staleWhileRevalidate: 48 * 3600 },
+    search: searchBangumi,
+    searchListing: (query, { signal }) => searchBangumiListing(query, signal),
+    detail: bangumiDetail,
+    searchPeople: searchBangumiPeople,
+    personWorks: bangumiPersonWorks,
+};
@@ -0,0 +1,320 @@
+import * as cheerio from "https://esm.sh/cheerio@1.0.0-rc.12";
+import { MediaCredit, MediaItem, createMediaItem } from "../media.ts";
+import { DESKTOP_USER_AGENT, HOST_POLICIES, isNotFound, mapWithConcurrency, providerFetch } from "./http.ts";
+import {
+    MediaProvider,
+    ProviderDetailOptions,
+    ProviderListingOptions,
+    ProviderPage,
+    ProviderSearchOptions,
+} from "./types.ts";
+
+// ============================================================================
+// Douban Search (Web Scraping)
+// ============================================================================
+
+// Kept to what the enrichment budget can fill in within the provider timeout
+export const DOUBAN_PAGE_SIZE = 6;
+
+// Search hits lack posters, original titles and dates, so each one is enriched
+// from its subject page, a few at a time. douban.com spaces request starts
+// minIntervalMs apart, so the last of a page's subject pages starts a page's
+// worth of intervals after the search page; the budget covers that and the
+// page's own fetch time.
+const DOUBAN_DETAIL_CONCURRENCY = 3;
+const DOUBAN_SUBJECT_FETCH_MS = 2000;
+const DOUBAN_ENRICH_TIMEOUT_MS =
+    DOUBAN_PAGE_SIZE * (HOST_POLICIES["douban.com"].minIntervalMs ?? 0) + DOUBAN_SUBJECT_FETCH_MS;
+
+const DOUBAN_HEADERS = {
+    "User-Agent": DESKTOP_USER_AGENT,
+    Accept:
+        "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
+    "Accept-Language": "zh-CN,zh;q=0.9,en;q=0.8",
+};
+
+/**
+ * One page of search hits as the search page lists them; `more` when the
+ * page lists further hits
+ */
+async function fetchDoubanSearchPage(
+    query: string,
+    start: number,
+    signal: AbortSignal
+): Promise<{ results: MediaItem[]; more: boolean }> {
+    let url = `https://www.douban.com/search?cat=1002&q=${encodeURIComponent(
+        query
+    )}`;
+    if (start > 0) url += `&start=${start}`;
+
+    const response = await providerFetch("Douban search", url, {
+        headers: DOUBAN_HEADERS,
+    }, signal);
+
+    const html = await response.text();
+    const $ = cheerio.load(html);
+    const results: MediaItem[] = [];
+    const entries = $(".result-list .result");
+
+    entries
+        .slice(0, DOUBAN_PAGE_SIZE)
+        .each((_: number, element: any) => {
+            try {
+                const $item = $(element);
+
+                // Get ID from onclick
+                const titleLink = $item.find("h3 a");
+                const onclick = titleLink.attr("onclick") || "";
+                const idMatch = onclick.match(/sid:\s*(\d+)/);
+                if (!idMatch) return;
+                const sourceId = idMatch[1];
+
+                // Title
+                const titleZh = titleLink.text().trim() || "未知标题";
+
+                // Rating
+                let rating = 0;
+                const ratingEl = $item.find(".rating_nums");
+                if (ratingEl.length) {
+                    rating = parseFloat(ratingEl.text()) || 0;
+                }
+
+                // Subject cast (contains year, staff info)
+                const subjectCast = $item.find(".subject-cast");
+                let staffStr = "";
+                let year = "----";
+                let titleOriginal = "";
+
+                if (subjectCast.length) {
+                    const text = subjectCast.text().trim();
+                    const yearMatch = text.match(/\d{4}/);
+                    if (yearMatch) year = yearMatch[0];
+                    const originalMatch = text.match(/原名:\s*(.*?)\s*(?:\/|$)/);
+                    if (originalMatch) titleOriginal = originalMatch[1];
+                    staffStr = text.replace(/原名:.*?(?:\/|$)/, "").trim();
+                    if (staffStr.startsWith("/")) staffStr = staffStr.substring(1).trim();
+                }
+
+                results.push(
+                    createMediaItem({
+                        sourceType: "douban",
+                        sourceId: sourceId,
+                        sourceUrl: `https://movie.douban.com/subject/${sourceId}`,
+                        mediaType: "movie",
+                        titleZh: titleZh,
+                        titleOriginal: titleOriginal,
+                        year: year,
+                        posterUrl: "", // Filled in by enrichDoubanResults
+                        staff: staffStr || "暂无制作信息",
+                        rating: rating,
+                        ratingDouban: rating,
+                    })
+                );
+            } catch (e) {
+                console.error("Error parsing Douban item:", e);
+            }
+        });
+
+    return { results, more: entries.length > DOUBAN_PAGE_SIZE };
+}
+
+async function searchDouban(
+    query: string,
+    { signal, position }: ProviderSearchOptions
+): Promise<ProviderPage> {
+    const start = position?.start ?? 0;
+    const { results, more } = await fetchDoubanSearchPage(query, start, signal);
+
+    // `start` is an absolute offset, so the next page begins right after what we consumed
+    return {
+        items: await enrichDoubanResults(results, signal),
+        next: more ? { start: start + DOUBAN_PAGE_SIZE } : null,
+    };
+}
+
+async function searchDoubanListing(query: string, { signal }: ProviderListingOptions): Promise<MediaItem[]> {
+    const { results } = await fetchDoubanSearchPage(query, 0, signal);
+    return results;
+}
+
+/**
+ * Fill search hits in from their subject pages. Fail-soft: a hit whose page
+ * fails, or isn't reached before the enrichment budget runs out, is kept as-is.
+ */
+async function enrichDoubanResults(results: MediaItem[], signal: AbortSignal): Promise<MediaItem[]> {
+    if (results.length === 0) return results;
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal.addEventListener("abort", abort);
+    const timer = setTimeout(abort, DOUBAN_ENRICH_TIMEOUT_MS);
+
+    try {
+        return await mapWithConcurrency(results, DOUBAN_DETAIL_CONCURRENCY, async (item) => {
+            if (controller.signal.aborted) return item;
+            try {
+                const detail = await fetchDoubanSubject(item.sourceId, controller.signal);
+                return detail ? applyDoubanDetail(item, detail) : item;
+            } catch (e) {
+                if (!controller.signal.aborted) {
+                    console.error(`Douban detail failed for ${item.sourceId}:`, e);
+                }
+                return item;
+            }
+        });
+    } finally {
+        clearTimeout(timer);
+        signal.removeEventListener("abort", abort);
+    }
+}
+
+/**
+ * Search hit fields win where the search page already had them (rating, year);
+ * everything the search page lacks comes from the subject page
+ */
+function applyDoubanDetail(item: MediaItem, detail: MediaItem): MediaItem {
+    const rating = item.rating || detail.rating;
+    return {
+        ...detail,
+        year: item.year !== "----" ? item.year : detail.year,
+        titleOriginal: detail.titleOriginal || item.titleOriginal,
+        staff: detail.staff !== "暂无制作信息" ? detail.staff : item.staff,
+        rating: rating,
+        ratingDouban: rating,
+        sources: item.sources?.map((source) => ({ ...source, rating })),
+        // Full credits are only returned by detail lookups
+        cast: undefined,
+        crew: undefined,
+    };
+}
+
+// ============================================================================
+// Douban Subject Detail (Web Scraping)
+// ============================================================================
+
+async function fetchDoubanSubject(sourceId: string, signal: AbortSignal): Promise<MediaItem | null> {
+    const url = `https://movie.douban.com/subject/${encodeURIComponent(sourceId)}/`;
+    const response = await providerFetch("Douban detail", url, {
+        headers: DOUBAN_HEADERS,
+    }, signal);
+
+    const $ = cheerio.load(await response.text());
+    return parseDoubanSubject($, sourceId);
+}
+
+async function doubanDetail(sourceId: string, { signal }: ProviderDetailOptions): Promise<MediaItem | null> {
+    try {
+        return await fetchDoubanSubject(sourceId, signal);
+    } catch (e) {
+        if (isNotFound(e)) return null;
+        throw e;
+    }
+}
+
+/**
+ * Parse a movie.douban.com subject page. Returns null when the page
+ * isn't a subject (e.g. a login or anti-bot page).
+ */
+export function parseDoubanSubject($: cheerio.CheerioAPI, sourceId: string): MediaItem | null {
+    const heading = $('span[property="v:itemreviewed"]').text().trim();
+    if (!heading) return null;
+
+    // `#info` is a flat run of "label: value" lines separated by <br>
+    const info: Record<string, string> = {};
+    for (const line of $("#info").text().split("\n")) {
+        const match = line.match(/^\s*([^:：]+)[:：]\s*(.+?)\s*$/);
+        if (match && !info[match[1]]) info[match[1]] = match[2];
+    }
+
+    // The page title is the Chinese title; the heading appends the original title
+    const titleZh = $("title").text().replace(/\(豆瓣\)\s*$/, "").trim() || heading;
+    let titleOriginal = info["原名"] || "";
+    if (!titleOriginal && heading.startsWith(titleZh)) {
+        titleOriginal = heading.slice(titleZh.length).trim();
+    }
+
+    let posterUrl = $("#mainpic img").attr("src") || "";
+    posterUrl = posterUrl.replace(/\/s_ratio_poster\//, "/l_ratio_poster/");
+
+    let summary = $('span[property="v:summary"]').first().text();
+    summary = summary.replace(/\s*\n\s*/g, "\n").trim();
+
+    const releaseDates = $('span[property="v:initialReleaseDate"]')
+        .toArray()
+        .map((el: any) => $(el).text().trim());
+    // "2010-07-16(美国)" -> "2010-07-16"; prefer the earliest listed date
+    const releaseDate = releaseDates
+        .map((d: string) => d.replace(/\(.*\)$/, "").trim())
+        .filter((d: string) => /^\d{4}/.test(d))
+        .sort()[0] || info["首播"]?.replace(/\(.*\)$/, "").trim() || "";
+
+    const yearMatch = $("#content h1 .year").text().match(/\d{4}/) || releaseDate.match(/^\d{4}/);
+
+    const runtime = $('span[property="v:runtime"]').first().text().trim();
+    const episodes = info["集数"];
+    const duration = runtime || info["单集片长"] || (episodes ? `${episodes}集` : "");
+
+    const names = (selector: string) =>
+        $(selector)
+            .toArray()
+            .map((el: any) => $(el).text().trim())
+            .filter((name: string) => name);
+
+    const directors = names('#info a[rel="v:directedBy"]');
+    const actors = names('#info a[rel="v:starring"]');
+    const genres = names('#info span[property="v:genre"]');
+    const writers = (info["编剧"] || "")
+        .split("/")
+        .map((name) => name.trim())
+        .filter((name) => name);
+
+    const crew: MediaCredit[] = [
+        ...directors.map((name: string) => ({ name, role: "导演" })),
+        ...writers.map((name) => ({ name, role: "编剧" })),
+    ];
+
+    let staff = "";
+    if (directors.length) staff += `导演: ${directors.join(" / ")} `;
+    if (actors.length) staff += `主演: ${actors.slice(0, 5).join(" / ")}`;
+
+    const rating = parseFloat($("strong.rating_num").text()) || 0;
+    const imdbId = info["IMDb"]?.match(/tt\d+/)?.[0];
+
+    const media = createMediaItem({
+        sourceType: "douban",
+        sourceId: sourceId,
+        sourceUrl: `https://movie.douban.com/subject/${sourceId}`,
+        mediaType: episodes ? "tv" : "movie",
+        titleZh: titleZh,
+        titleOriginal: titleOriginal,
+        releaseDate: releaseDate || "未知日期",
+        duration: duration || "未知",
+        year: yearMatch ? yearMatch[0] : "----",
+        posterUrl: posterUrl,
+        summary: summary || "暂无简介",
+        staff: staff.trim() || "暂无制作信息",
+        directors: directors,
+        actors: actors.slice(0, 5),
+        rating: rating,
+        ratingDouban: rating,
+        genres: genres,
+        externalIds: imdbId ? { imdb: imdbId } : undefined,
+    });
+    media.cast = actors.map((name: string) => ({ name, role: "" }));
+    media.crew = crew;
+    return media;
+}
+
+export const doubanProvider: MediaProvider = {
+    id: "douban",
+    name: "Douban",
+    mediaTypes: ["movie", "tv"],
+    completenessWeight: 3,
+    relevanceWeight: 3,
+    // Search page plus the bounded subject-page enrichment
+    timeoutMs: 10000,
+    cachePolicy: { ttl: 12 * 3600, staleWhileRevalidate: 48 * 3600 },
+    search: searchDouban,
+    searchListing: searchDoubanListing,
+    detail: doubanDetail,
+};
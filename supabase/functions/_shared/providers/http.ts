@@ -0,0 +1,449 @@
+// ============================================================================
+// Provider Errors & Fetch Helpers
+// ============================================================================
+
+// blocked: the source served an anti-bot page; circuit_open: the source is
+// cooling down after repeated failures and was not contacted
+export type ProviderStatus = "ok" | "timeout" | "http_error" | "parse_error" | "blocked" | "circuit_open";
+
+export const DESKTOP_USER_AGENT =
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+
+export const MOBILE_USER_AGENT =
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 13_2_3 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/13.0.3 Mobile/15E148 Safari/604.1";
+
+/**
+ * Error raised by a provider search, carrying the status reported to the client
+ */
+export class ProviderError extends Error {
+    constructor(
+        public status: Exclude<ProviderStatus, "ok">,
+        message: string,
+        public httpStatus?: number
+    ) {
+        super(message);
+        this.name = "ProviderError";
+    }
+}
+
+/**
+ * Whether a provider request failed because the source has no such page
+ */
+export function isNotFound(e: unknown): boolean {
+    return e instanceof ProviderError && e.status === "http_error" && e.httpStatus === 404;
+}
+
+/**
+ * How provider requests reach the network
+ */
+export type Transport = (url: string, init: RequestInit, signal: AbortSignal) => Promise<Response>;
+
+const defaultTransport: Transport = (url, init, signal) => outboundClient.fetch(url, init, signal);
+
+let transport = defaultTransport;
+
+/**
+ * Swap the network layer under every provider (tests replay recorded
+ * fixtures through it); null restores the shared outbound client
+ */
+export function setTransport(next: Transport | null): void {
+    transport = next ?? defaultTransport;
+}
+
+/**
+ * Fetch a provider URL through the current transport, throwing a
+ * ProviderError on non-2xx responses
+ */
+export async function providerFetch(
+    label: string,
+    url: string,
+    init: RequestInit,
+    signal: AbortSignal
+): Promise<Response> {
+    const response = await transport(url, init, signal);
+    if (!response.ok) {
+        throw new ProviderError(
+            "http_error",
+            `${label} failed: ${response.status}`,
+            response.status
+        );
+    }
+    return response;
+}
+
+/**
+ * Parse a JSON body, turning malformed payloads into a parse_error
+ */
+export async function readJson(label: string, response: Response): Promise<any> {
+    const text = await response.text();
+    try {
+        return JSON.parse(text);
+    } catch (_) {
+        throw new ProviderError("parse_error", `${label} returned invalid JSON`);
+    }
+}
+
+/**
+ * Run provider work under a timeout. The signal handed to `work` is aborted
+ * when the timeout fires, which rejects with a ProviderError("timeout") even
+ * if the work ignores its signal.
+ */
+export async function withTimeout<T>(
+    label: string,
+    timeoutMs: number,
+    work: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+    const controller = new AbortController();
+
+    let timer: number | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(new ProviderError("timeout", `${label} timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+    });
+
+    try {
+        return await Promise.race([work(controller.signal), timeout]);
+    } finally {
+        clearTimeout(timer);
+        controller.abort();
+    }
+}
+
+/**
+ * Map any provider failure onto the status reported to clients.
+ * Network failures without an HTTP status count as http_error.
+ */
+export function describeProviderError(e: unknown): {
+    status: Exclude<ProviderStatus, "ok">;
+    httpStatus?: number;
+    error: string;
+} {
+    const error = e instanceof Error ? e.message : String(e);
+    if (e instanceof ProviderError) {
+        return e.httpStatus
+            ? { status: e.status, httpStatus: e.httpStatus, error }
+            : { status: e.status, error };
+    }
+    if (e instanceof Error && e.name === "AbortError") {
+        return { status: "timeout", error };
+    }
+    return { status: "http_error", error };
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, preserving order
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    await Promise.all(
+        Array.from({ length: Math.min(limit, items.length) }, worker)
+    );
+    return results;
+}
+
+// ============================================================================
+// Outbound Client
+// ============================================================================
+
+export interface HostPolicy {
+    // Requests in flight at once
+    maxConcurrent: number;
+    // Minimum gap between request starts in ms
+    minIntervalMs: number;
+    // Extra attempts after a 429, a 5xx or a network error
+    retries: number;
+    // First backoff delay; doubles per attempt, jittered
+    backoffBaseMs: number;
+    backoffMaxMs: number;
+    // Consecutive failed requests (after their retries) that open the circuit
+    failureThreshold: number;
+    // How long an open circuit rejects requests
+    cooldownMs: number;
+    // Cool-down after an anti-bot page, which opens the circuit at once
+    blockedCooldownMs: number;
+}
+
+const DEFAULT_HOST_POLICY: HostPolicy = {
+    maxConcurrent: 6,
+    minIntervalMs: 0,
+    retries: 2,
+    backoffBaseMs: 400,
+    backoffMaxMs: 5000,
+    failureThreshold: 5,
+    cooldownMs: 60_000,
+    blockedCooldownMs: 10 * 60_000,
+};
+
+/**
+ * Per-domain overrides; subdomains share their domain's limits and circuit.
+ * The scraped sites get few parallel requests, spaced out.
+ */
+export const HOST_POLICIES: Record<string, Partial<HostPolicy>> = {
+    "douban.com": { maxConcurrent: 2, minIntervalMs: 800, retries: 1, cooldownMs: 5 * 60_000 },
+    "bgm.tv": { maxConcurrent: 3, minIntervalMs: 250 },
+    "maoyan.com": { maxConcurrent: 2, minIntervalMs: 300 },
+    "api.themoviedb.org": { maxConcurrent: 10 },
+};
+
+// Redirect targets that only ever serve a challenge
+const ANTI_BOT_HOSTS = ["sec.douban.com"];
+
+// Challenge and block pages served in place of the requested one
+const ANTI_BOT_MARKERS = [
+    /检测到有异常请求/,
+    /<title>\s*禁止访问\s*<\/title>/,
+    /name="captcha-(?:solution|id)"/,
+    /<title>\s*Just a moment\.\.\.\s*<\/title>/i,
+];
+
+interface HostState {
+    key: string;
+    policy: HostPolicy;
+    active: number;
+    waiters: (() => void)[];
+    nextStartAt: number;
+    failures: number;
+    openUntil: number;
+}
+
+function abortReason(signal: AbortSignal): unknown {
+    return signal.reason ?? new DOMException("The operation was aborted", "AbortError");
+}
+
+function isAbortError(e: unknown): boolean {
+    return e instanceof Error && e.name === "AbortError";
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortReason(signal));
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortReason(signal!));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+function isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+/**
+ * Shared HTTP client for every outbound call. Per host it caps concurrency,
+ * spaces out request starts, retries 429/5xx and network errors with jittered
+ * exponential backoff, rejects anti-bot pages, and opens a circuit breaker
+ * after repeated failures so a failing source stops receiving fan-out.
+ */
+export class OutboundClient {
+    private hosts = new Map<string, HostState>();
+
+    constructor(
+        private policies: Record<string, Partial<HostPolicy>> = HOST_POLICIES,
+        private fetchImpl: typeof fetch = (input, init) => fetch(input, init),
+        private random: () => number = Math.random
+    ) {}
+
+    /**
+     * Fetch with retries. Returns the last response when retries run out;
+     * throws ProviderError("blocked" | "circuit_open") without a response.
+     */
+    async fetch(url: string, init: RequestInit = {}, signal?: AbortSignal): Promise<Response> {
+        const host = this.hostFor(url);
+
+        for (let attempt = 0; ; attempt++) {
+            this.ensureClosed(host);
+            await this.acquire(host, signal);
+
+            let response: Response;
+            try {
+                response = await this.fetchImpl(url, { ...init, signal });
+            } catch (e) {
+                if (isAbortError(e)) throw e;
+                if (attempt >= host.policy.retries) {
+                    this.recordFailure(host);
+                    throw e;
+                }
+                await sleep(this.backoffDelay(host.policy, attempt), signal);
+                continue;
+            } finally {
+                this.release(host);
+            }
+
+            response = await this.screen(host, response);
+            if (!isRetryableStatus(response.status)) {
+                host.failures = 0;
+                return response;
+            }
+
+            // One failure per request, once its retries are spent
+            if (attempt >= host.policy.retries) {
+                this.recordFailure(host);
+                return response;
+            }
+            await response.body?.cancel();
+            await sleep(this.retryDelay(host.policy, attempt, response), signal);
+        }
+    }
+
+    private hostFor(url: string): HostState {
+        const hostname = new URL(url).hostname;
+        const key = Object.keys(this.policies).find(
+            (domain) => hostname === domain || hostname.endsWith(`.${domain}`)
+        ) ?? hostname;
+
+        let host = this.hosts.get(key);
+        if (!host) {
+            host = {
+                key,
+                policy: { ...DEFAULT_HOST_POLICY, ...this.policies[key] },
+                active: 0,
+                waiters: [],
+                nextStartAt: 0,
+                failures: 0,
+                openUntil: 0,
+            };
+            this.hosts.set(key, host);
+        }
+        return host;
+    }
+
+    // ------------------------------------------------------------------------
+    // Concurrency & Spacing
+    // ------------------------------------------------------------------------
+
+    private async acquire(host: HostState, signal?: AbortSignal): Promise<void> {
+        while (host.active >= host.policy.maxConcurrent) {
+            await new Promise<void>((resolve, reject) => {
+                if (signal?.aborted) return reject(abortReason(signal));
+                const onAbort = () => {
+                    host.waiters = host.waiters.filter((waiter) => waiter !== wake);
+                    reject(abortReason(signal!));
+                };
+                const wake = () => {
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve();
+                };
+                host.waiters.push(wake);
+                signal?.addEventListener("abort", onAbort, { once: true });
+            });
+        }
+        host.active++;
+
+        const now = Date.now();
+        const startAt = Math.max(now, host.nextStartAt);
+        host.nextStartAt = startAt + host.policy.minIntervalMs;
+        if (startAt > now) {
+            try {
+                await sleep(startAt - now, signal);
+            } catch (e) {
+                this.release(host);
+                throw e;
+            }
+        }
+    }
+
+    private release(host: HostState): void {
+        host.active--;
+        host.waiters.shift()?.();
+    }
+
+    // ------------------------------------------------------------------------
+    // Backoff
+    // ------------------------------------------------------------------------
+
+    /**
+     * Half to all of base * 2^attempt, capped
+     */
+    private backoffDelay(policy: HostPolicy, attempt: number): number {
+        const ceiling = Math.min(policy.backoffMaxMs, policy.backoffBaseMs * 2 ** attempt);
+        return ceiling / 2 + this.random() * (ceiling / 2);
+    }
+
+    /**
+     * Honour a Retry-After in seconds when the source sends one
+     */
+    private retryDelay(policy: HostPolicy, attempt: number, response: Response): number {
+        const retryAfter = Number(response.headers.get("retry-after"));
+        if (retryAfter > 0) return Math.min(policy.backoffMaxMs, retryAfter * 1000);
+        return this.backoffDelay(policy, attempt);
+    }
+
+    // ------------------------------------------------------------------------
+    // Anti-Bot Detection & Circuit Breaker
+    // ------------------------------------------------------------------------
+
+    /**
+     * Reject challenge pages; HTML bodies are read to look for them, so the
+     * response is rebuilt around the text that was read
+     */
+    private async screen(host: HostState, response: Response): Promise<Response> {
+        const finalHost = response.url ? new URL(response.url).hostname : "";
+        if (ANTI_BOT_HOSTS.includes(finalHost)) {
+            await response.body?.cancel();
+            throw this.block(host, response.status, `redirected to ${finalHost}`);
+        }
+
+        if (!(response.headers.get("content-type") || "").includes("text/html")) return response;
+
+        const body = await response.text();
+        if (ANTI_BOT_MARKERS.some((marker) => marker.test(body))) {
+            throw this.block(host, response.status, "served a captcha page");
+        }
+        return new Response(body, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+        });
+    }
+
+    private block(host: HostState, httpStatus: number, reason: string): ProviderError {
+        host.failures = Math.max(host.failures, host.policy.failureThreshold);
+        host.openUntil = Date.now() + host.policy.blockedCooldownMs;
+        console.warn(`${host.key} ${reason}, pausing requests for ${host.policy.blockedCooldownMs / 1000}s`);
+        return new ProviderError("blocked", `${host.key} ${reason} (anti-bot check)`, httpStatus);
+    }
+
+    private ensureClosed(host: HostState): void {
+        const remaining = host.openUntil - Date.now();
+        if (remaining > 0) {
+            throw new ProviderError(
+                "circuit_open",
+                `${host.key} is paused after repeated failures, retry in ${Math.ceil(remaining / 1000)}s`
+            );
+        }
+    }
+
+    /**
+     * Failures stay counted after a cool-down, so the first request through a
+     * half-open circuit re-opens it on failure; any success resets the count
+     */
+    private recordFailure(host: HostState): void {
+        host.failures++;
+        if (host.failures >= host.policy.failureThreshold) {
+            host.openUntil = Date.now() + host.policy.cooldownMs;
+            console.warn(`${host.key} failed ${host.failures} times in a row, pausing requests for ${host.policy.cooldownMs / 1000}s`);
+        }
+    }
+}
+
+export const outboundClient = new OutboundClient();
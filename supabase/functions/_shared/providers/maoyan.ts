@@ -0,0 +1,267 @@
+import { MediaItem, createMediaItem } from "../media.ts";
+import { isNotFound, mapWithConcurrency, MOBILE_USER_AGENT, providerFetch, readJson } from "./http.ts";
+import {
+    MediaProvider,
+    ProviderDetailOptions,
+    ProviderPage,
+    ProviderSearchOptions,
+} from "./types.ts";
+
+// ============================================================================
+// Maoyan Search
+// ============================================================================
+
+// Maoyan's search has no paging of its own; pages are slices of its single list
+const MAOYAN_PAGE_SIZE = 8;
+
+// Beijing; search results don't depend on the city much, showtimes do
+export const MAOYAN_DEFAULT_CITY_ID = 1;
+
+async function searchMaoyan(
+    query: string,
+    { signal, position }: ProviderSearchOptions
+): Promise<ProviderPage> {
+    const index = position?.index ?? 0;
+
+    const url = `https://m.maoyan.com/ajax/search?kw=${encodeURIComponent(
+        query
+    )}&cityId=${MAOYAN_DEFAULT_CITY_ID}&stype=-1`;
+
+    const response = await providerFetch("Maoyan search", url, {
+        headers: {
+            "User-Agent": MOBILE_USER_AGENT,
+        },
+    }, signal);
+
+    const data = await readJson("Maoyan search", response);
+    const list: any[] = data?.movies?.list || [];
+    const results: MediaItem[] = [];
+
+    if (list.length) {
+        for (const item of list.slice(index, index + MAOYAN_PAGE_SIZE)) {
+            try {
+                const media = maoyanItemToMedia(item);
+                results.push(media);
+            } catch (e) {
+                console.error("Error parsing Maoyan item:", e);
+            }
+        }
+    }
+
+    const nextIndex = index + MAOYAN_PAGE_SIZE;
+    return { items: results, next: nextIndex < list.length ? { index: nextIndex } : null };
+}
+
+/**
+ * Full detail for one movie; same shape as a search hit plus the synopsis
+ */
+async function maoyanDetail(
+    sourceId: string,
+    { signal }: ProviderDetailOptions
+): Promise<MediaItem | null> {
+    const url = `https://m.maoyan.com/ajax/detailmovie?movieId=${encodeURIComponent(sourceId)}`;
+    let response: Response;
+    try {
+        response = await providerFetch("Maoyan detail", url, {
+            headers: {
+                "User-Agent": MOBILE_USER_AGENT,
+            },
+        }, signal);
+    } catch (e) {
+        if (isNotFound(e)) return null;
+        throw e;
+    }
+
+    const data = await readJson("Maoyan detail", response);
+    const detail = data?.detailMovie;
+    if (!detail?.id) return null;
+
+    const media = maoyanItemToMedia(detail);
+    if (detail.dra) media.summary = detail.dra.trim();
+    media.cast = media.actors.map((name) => ({ name, role: "" }));
+    media.crew = media.directors.map((name) => ({ name, role: "导演" }));
+    return media;
+}
+
+export function maoyanItemToMedia(item: any): MediaItem {
+    const id = item.id?.toString() || "";
+    const title = item.nm || "未知标题";
+    const originalTitle = item.enm || "";
+    const score = parseFloat(item.sc) || 0;
+    const wish = item.wish?.toString() || "0";
+
+    // Poster
+    let poster = item.img || "";
+    if (poster.includes("/w.h/")) {
+        poster = poster.replace("/w.h/", "/");
+    }
+
+    const pubDesc = item.pubDesc || "";
+    const releaseDate = item.rt || "";
+
+    let year = "----";
+    if (releaseDate && releaseDate.length >= 4) {
+        year = releaseDate.substring(0, 4);
+    } else if (pubDesc) {
+        const yearMatch = pubDesc.match(/\d{4}/);
+        if (yearMatch) year = yearMatch[0];
+    }
+
+    const director = item.dir || "";
+    const actorsStr = item.star || "";
+    const genresStr = item.cat || "";
+    const dur = item.dur || 0;
+
+    const isNew =
+        item.showStateButton?.content === "购票" ||
+        item.showStateButton?.content === "预售";
+
+    let staff = "";
+    if (director) staff += `导演: ${director} `;
+    if (actorsStr) staff += `主演: ${actorsStr}`;
+
+    const genres = genresStr
+        .split(",")
+        .map((s: string) => s.trim())
+        .filter((s: string) => s);
+    const actors = actorsStr
+        .split(",")
+        .map((s: string) => s.trim())
+        .filter((s: string) => s);
+
+    return createMediaItem({
+        sourceType: "maoyan",
+        sourceId: id,
+        sourceUrl: `https://m.maoyan.com/movie/${id}`,
+        mediaType: "movie",
+        titleZh: title,
+        titleOriginal: originalTitle,
+        releaseDate: releaseDate,
+        duration: dur ? `${dur}分钟` : "未知",
+        year: year,
+        posterUrl: poster,
+        staff: staff || "暂无制作信息",
+        directors: director ? [director] : [],
+        actors: actors,
+        rating: score,
+        ratingMaoyan: score,
+        genres: genres,
+        wish: wish,
+        isNew: isNew,
+    });
+}
+
+// ============================================================================
+// Maoyan Cinema Listings
+// ============================================================================
+
+export type MaoyanListing = "showing" | "coming";
+
+// Upcoming releases requested per call; Maoyan pages further ones by offset
+const MAOYAN_COMING_LIMIT = 30;
+
+// Listings lack synopses and credits, so each film is filled in from its
+// detail page: a few at a time, and only within this budget
+const MAOYAN_DETAIL_CONCURRENCY = 2;
+const MAOYAN_ENRICH_TIMEOUT_MS = 8000;
+
+/**
+ * Films now in cinemas ("showing") or opening soon ("coming") in one city,
+ * in Maoyan's order
+ */
+export async function fetchMaoyanListing(
+    listing: MaoyanListing,
+    cityId: number,
+    signal: AbortSignal
+): Promise<MediaItem[]> {
+    const url = listing === "showing"
+        ? `https://m.maoyan.com/ajax/movieOnInfoList?ci=${cityId}&token=`
+        : `https://m.maoyan.com/ajax/comingList?ci=${cityId}&token=&limit=${MAOYAN_COMING_LIMIT}`;
+    const label = listing === "showing" ? "Maoyan now showing" : "Maoyan coming soon";
+
+    const response = await providerFetch(label, url, {
+        headers: {
+            "User-Agent": MOBILE_USER_AGENT,
+            // The mobile site keys the city on this cookie
+            Cookie: `ci=${cityId}`,
+        },
+    }, signal);
+
+    const data = await readJson(label, response);
+    const list: any[] = (listing === "showing" ? data?.movieList : data?.coming) || [];
+    const items: MediaItem[] = [];
+    for (const item of list) {
+        try {
+            if (item?.id) items.push(maoyanItemToMedia(item));
+        } catch (e) {
+            console.error("Error parsing Maoyan item:", e);
+        }
+    }
+    return await enrichMaoyanListing(items, signal);
+}
+
+/**
+ * Fill listing entries in from their detail pages. Fail-soft: an entry whose
+ * page fails, or isn't reached before the budget runs out, is kept as-is.
+ */
+async function enrichMaoyanListing(items: MediaItem[], signal: AbortSignal): Promise<MediaItem[]> {
+    if (items.length === 0) return items;
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal.addEventListener("abort", abort);
+    const timer = setTimeout(abort, MAOYAN_ENRICH_TIMEOUT_MS);
+
+    try {
+        return await mapWithConcurrency(items, MAOYAN_DETAIL_CONCURRENCY, async (item) => {
+            if (controller.signal.aborted) return item;
+            try {
+                const detail = await maoyanDetail(item.sourceId, { signal: controller.signal });
+                return detail ? applyMaoyanDetail(item, detail) : item;
+            } catch (e) {
+                if (!controller.signal.aborted) {
+                    console.error(`Maoyan detail failed for ${item.sourceId}:`, e);
+                }
+                return item;
+            }
+        });
+    } finally {
+        clearTimeout(timer);
+        signal.removeEventListener("abort", abort);
+    }
+}
+
+/**
+ * Listing fields win for what changes by the day (score, wish count, ticket
+ * state); the rest comes from the detail page
+ */
+function applyMaoyanDetail(item: MediaItem, detail: MediaItem): MediaItem {
+    const rating = item.rating || detail.rating;
+    return {
+        ...detail,
+        releaseDate: item.releaseDate || detail.releaseDate,
+        year: item.year !== "----" ? item.year : detail.year,
+        posterUrl: item.posterUrl || detail.posterUrl,
+        rating: rating,
+        ratingMaoyan: rating,
+        wish: item.wish !== "0" ? item.wish : detail.wish,
+        isNew: item.isNew,
+        sources: item.sources?.map((source) => ({ ...source, rating })),
+        // Full credits are only returned by detail lookups
+        cast: undefined,
+        crew: undefined,
+    };
+}
+
+export const maoyanProvider: MediaProvider = {
+    id: "maoyan",
+    name: "Maoyan",
+    mediaTypes: ["movie"],
+    completenessWeight: 5,
+    relevanceWeight: 4,
+    timeoutMs: 5000,
+    // Showing state and box office move daily
+    cachePolicy: { ttl: 3600, staleWhileRevalidate: 6 * 3600 },
+    search: searchMaoyan,
+    detail: maoyanDetail,
+};
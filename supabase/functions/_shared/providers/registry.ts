@@ -0,0 +1,61 @@
+import { bangumiProvider } from "./bangumi.ts";
+import { doubanProvider } from "./douban.ts";
+import { maoyanProvider } from "./maoyan.ts";
+import { tmdbProvider } from "./tmdb.ts";
+import { MediaProvider, SearchType } from "./types.ts";
+
+// ============================================================================
+// Provider Registry
+// ============================================================================
+
+export class ProviderRegistry {
+    private providers = new Map<string, MediaProvider>();
+
+    /**
+     * Add a provider. Registration order is the merge priority order used
+     * when batches are concatenated before deduplication.
+     */
+    register(provider: MediaProvider): this {
+        if (this.providers.has(provider.id)) {
+            throw new Error(`Provider "${provider.id}" is already registered`);
+        }
+        this.providers.set(provider.id, provider);
+        return this;
+    }
+
+    get(id: string): MediaProvider | undefined {
+        return this.providers.get(id);
+    }
+
+    list(): MediaProvider[] {
+        return [...this.providers.values()];
+    }
+
+    /**
+     * Providers to query for a search type; "all" selects every provider
+     */
+    forSearchType(type: SearchType): MediaProvider[] {
+        if (type === "all") return this.list();
+        return this.list().filter((provider) => provider.mediaTypes.includes(type));
+    }
+
+    /**
+     * Providers for a search type, optionally narrowed to an allow-list of ids.
+     * Unknown ids are not silently dropped: callers check them with unknownIds().
+     */
+    select(type: SearchType, allowList?: string[]): MediaProvider[] {
+        const candidates = this.forSearchType(type);
+        if (!allowList) return candidates;
+        return candidates.filter((provider) => allowList.includes(provider.id));
+    }
+
+    unknownIds(ids: string[]): string[] {
+        return ids.filter((id) => !this.providers.has(id));
+    }
+}
+
+export const providerRegistry = new ProviderRegistry()
+    .register(bangumiProvider)
+    .register(tmdbProvider)
+    .register(maoyanProvider)
+    .register(doubanProvider);
@@ -0,0 +1,517 @@
+import { MediaItem, createMediaItem } from "../media.ts";
+import { Person } from "../people.ts";
+import { SearchFilters } from "../query.ts";
+import { isNotFound, providerFetch, readJson } from "./http.ts";
+import {
+    MediaProvider,
+    ProviderDetailOptions,
+    ProviderPage,
+    ProviderPersonOptions,
+    ProviderSearchOptions,
+} from "./types.ts";
+
+// ============================================================================
+// TMDb Search
+// ============================================================================
+
+const TMDB_API_BASE = "https://api.themoviedb.org/3";
+
+// Hits per page of our results; each one costs a detail request
+const TMDB_PAGE_SIZE = 8;
+
+function getTmdbToken(): string {
+    const tmdbToken = Deno.env.get("TMDB_ACCESS_TOKEN");
+    if (!tmdbToken) {
+        throw new Error("TMDB_ACCESS_TOKEN not set");
+    }
+    return tmdbToken;
+}
+
+async function tmdbGet(label: string, path: string, params: Record<string, string>, signal: AbortSignal) {
+    const tmdbToken = getTmdbToken();
+    const url = `${TMDB_API_BASE}${path}?${new URLSearchParams(params)}`;
+    const response = await providerFetch(label, url, {
+        headers: {
+            Authorization: `Bearer ${tmdbToken}`,
+            "Content-Type": "application/json",
+        },
+    }, signal);
+    return await readJson(label, response);
+}
+
+async function searchTmdb(
+    query: string,
+    { signal, searchType, position, filters }: ProviderSearchOptions
+): Promise<ProviderPage> {
+    // A query that is only a director/actor filter lists that person's work
+    const person = filters && personOnlyQuery(query, filters);
+    if (person) return searchTmdbPerson(person, filters!, { signal, searchType, position });
+
+    const page = position?.page ?? 1;
+    const index = position?.index ?? 0;
+
+    const searchParams: Record<string, string> = {
+        query: query,
+        language: "zh-CN",
+        include_adult: "false",
+        page: page.toString(),
+    };
+
+    // /search/multi has no year parameter, so a single-year filter searches
+    // films and TV shows by release year instead ("tv" searches only shows)
+    const year = filters?.year && filters.year.min === filters.year.max ? filters.year.min : null;
+    const data = year !== null
+        ? await searchTmdbByYear(searchParams, year, searchType, signal)
+        : await tmdbGet("TMDb search", "/search/multi", searchParams, signal);
+    const results: any[] = data.results || [];
+
+    // Filter for movie and tv only ("tv" searches keep TV shows only)
+    const filtered = results.filter((item: any) =>
+        searchType === "tv"
+            ? item.media_type === "tv"
+            : item.media_type === "movie" || item.media_type === "tv"
+    );
+    const pageItems = filtered.slice(index, index + TMDB_PAGE_SIZE);
+
+    // Fetch details for each item in parallel
+    const detailedItems = await Promise.all(
+        pageItems.map((item: any) => fetchTmdbDetails(item, signal))
+    );
+
+    // Continue within this TMDb page first, then move on to the next one
+    let next: ProviderPage["next"] = null;
+    if (index + TMDB_PAGE_SIZE < filtered.length) {
+        next = { page, index: index + TMDB_PAGE_SIZE };
+    } else if (page < (data.total_pages || 1)) {
+        next = { page: page + 1, index: 0 };
+    }
+
+    return {
+        items: detailedItems.filter((item): item is MediaItem => item !== null),
+        next,
+    };
+}
+
+/**
+ * One page of /search/movie and /search/tv for a release year, merged by
+ * popularity the way /search/multi orders its results. Like /search/multi,
+ * every type but "tv" covers films and shows.
+ */
+async function searchTmdbByYear(
+    searchParams: Record<string, string>,
+    year: number,
+    searchType: ProviderSearchOptions["searchType"],
+    signal: AbortSignal
+): Promise<{ results: any[]; total_pages: number }> {
+    const kinds: ("movie" | "tv")[] = searchType === "tv" ? ["tv"] : ["movie", "tv"];
+    const pages = await Promise.all(kinds.map((kind) =>
+        tmdbGet("TMDb search", `/search/${kind}`, {
+            ...searchParams,
+            [kind === "tv" ? "first_air_date_year" : "primary_release_year"]: year.toString(),
+        }, signal)
+    ));
+
+    const results = pages
+        .flatMap((data, i) => (data.results || []).map((item: any) => ({ ...item, media_type: kinds[i] })))
+        .sort((a, b) => (b.popularity ?? 0) - (a.popularity ?? 0));
+    return { results, total_pages: Math.max(...pages.map((data) => data.total_pages || 1)) };
+}
+
+function personOnlyQuery(query: string, filters: SearchFilters): { name: string; role: "director" | "actor" } | null {
+    if (filters.directors.includes(query)) return { name: query, role: "director" };
+    if (filters.actors.includes(query)) return { name: query, role: "actor" };
+    return null;
+}
+
+/**
+ * Films and shows of one person via /search/person + combined_credits,
+ * newest first. Directing credits for director filters, cast credits otherwise.
+ */
+async function searchTmdbPerson(
+    person: { name: string; role: "director" | "actor" },
+    filters: SearchFilters,
+    { signal, searchType, position }: ProviderSearchOptions
+): Promise<ProviderPage> {
+    const index = position?.index ?? 0;
+
+    const people = await tmdbGet("TMDb person search", "/search/person", {
+        query: person.name,
+        language: "zh-CN",
+        include_adult: "false",
+    }, signal);
+    const match = people.results?.[0];
+    if (!match) return { items: [], next: null };
+
+    const credits = await tmdbGet("TMDb person credits", `/person/${match.id}/combined_credits`, {
+        language: "zh-CN",
+    }, signal);
+
+    const works: any[] = person.role === "director"
+        ? (credits.crew || []).filter((c: any) => c.job === "Director")
+        : credits.cast || [];
+
+    const filtered = distinctWorks(works)
+        .filter((item) => searchType !== "tv" || item.media_type === "tv")
+        .filter((item) => {
+            if (!filters.year) return true;
+            const year = parseInt((item.release_date || item.first_air_date || "").slice(0, 4), 10);
+            return year >= filters.year.min && year <= filters.year.max;
+        });
+
+    const pageItems = filtered.slice(index, index + TMDB_PAGE_SIZE);
+    const detailedItems = await Promise.all(
+        pageItems.map((item: any) => fetchTmdbDetails(item, signal))
+    );
+
+    return {
+        items: detailedItems.filter((item): item is MediaItem => item !== null),
+        next: index + TMDB_PAGE_SIZE < filtered.length ? { page: 1, index: index + TMDB_PAGE_SIZE } : null,
+    };
+}
+
+/**
+ * Movie and TV credits, one per title (a director who also wrote a film is
+ * credited twice), newest first
+ */
+function distinctWorks(works: any[]): any[] {
+    const seen = new Set<string>();
+    return works
+        .filter((item) => item.media_type === "movie" || item.media_type === "tv")
+        .filter((item) => {
+            const key = `${item.media_type}:${item.id}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .sort((a, b) =>
+            (b.release_date || b.first_air_date || "").localeCompare(a.release_date || a.first_air_date || "")
+        );
+}
+
+// ============================================================================
+// TMDb People
+// ============================================================================
+
+// Search hits whose aliases are looked up; each costs a request
+const TMDB_PEOPLE_LIMIT = 5;
+
+// Filmography entries are built from the credits payload, without detail requests
+const TMDB_WORKS_LIMIT = 40;
+
+async function searchTmdbPeople(query: string, { signal }: ProviderPersonOptions): Promise<Person[]> {
+    const data = await tmdbGet("TMDb person search", "/search/person", {
+        query: query,
+        language: "zh-CN",
+        include_adult: "false",
+    }, signal);
+
+    const results = (data.results || []).slice(0, TMDB_PEOPLE_LIMIT);
+    return await Promise.all(results.map((person: any) => fetchTmdbPerson(person, signal)));
+}
+
+/**
+ * Search hit plus its also_known_as list, which carries the Chinese and
+ * Japanese spellings other sources use. Falls back to the hit alone.
+ */
+async function fetchTmdbPerson(person: any, signal: AbortSignal): Promise<Person> {
+    let aliases: string[] = [];
+    try {
+        const detail = await tmdbGet("TMDb person", `/person/${person.id}`, { language: "zh-CN" }, signal);
+        aliases = detail.also_known_as || [];
+    } catch (e) {
+        console.error(`TMDb person fetch error for ${person.id}:`, e);
+    }
+    return tmdbPersonToPerson(person, aliases);
+}
+
+function tmdbPersonToPerson(person: any, aliases: string[]): Person {
+    const id = person.id.toString();
+    const nameOriginal = person.original_name || person.name || "";
+    const name = aliases.find((alias) => /[\u4e00-\u9fa5]/.test(alias)) || person.name || nameOriginal;
+
+    return {
+        name: name,
+        nameOriginal: nameOriginal,
+        aliases: [...new Set([person.name, ...aliases])]
+            .filter((alias) => alias && alias !== name && alias !== nameOriginal),
+        avatarUrl: tmdbProfileUrl(person.profile_path) || "",
+        roles: person.known_for_department ? [person.known_for_department] : [],
+        sources: [{
+            sourceType: "tmdb",
+            sourceId: id,
+            sourceUrl: `https://www.themoviedb.org/person/${id}`,
+        }],
+        knownFor: (person.known_for || [])
+            .filter((item: any) => item.media_type === "movie" || item.media_type === "tv")
+            .map((item: any) => tmdbItemToMedia(item, item.media_type)),
+    };
+}
+
+async function tmdbPersonWorks(id: string, { signal }: ProviderPersonOptions): Promise<MediaItem[]> {
+    const credits = await tmdbGet("TMDb person credits", `/person/${id}/combined_credits`, {
+        language: "zh-CN",
+    }, signal);
+
+    return distinctWorks([...(credits.cast || []), ...(credits.crew || [])])
+        .slice(0, TMDB_WORKS_LIMIT)
+        .map((item) => tmdbItemToMedia(item, item.media_type));
+}
+
+// ============================================================================
+// TMDb Movie Lists
+// ============================================================================
+
+export type TmdbMovieList = "now_playing" | "upcoming";
+
+/**
+ * One page of a region's now-playing or upcoming films, built from the list
+ * payload alone (no detail requests)
+ */
+export async function fetchTmdbMovieList(
+    list: TmdbMovieList,
+    region: string,
+    page: number,
+    signal: AbortSignal
+): Promise<MediaItem[]> {
+    const data = await tmdbGet(`TMDb ${list}`, `/movie/${list}`, {
+        language: "zh-CN",
+        region: region,
+        page: page.toString(),
+    }, signal);
+    return (data.results || []).map((item: any) => tmdbItemToMedia(item, "movie"));
+}
+
+/**
+ * Films matching a title, built from the search payload alone
+ */
+export async function searchTmdbMovies(query: string, signal: AbortSignal): Promise<MediaItem[]> {
+    const data = await tmdbGet("TMDb movie search", "/search/movie", {
+        query: query,
+        language: "zh-CN",
+        include_adult: "false",
+    }, signal);
+    return (data.results || []).map((item: any) => tmdbItemToMedia(item, "movie"));
+}
+
+/**
+ * Movies and TV shows matching a title, built from the search payload alone.
+ * The query matches titles in any language; `language` picks the one hits are
+ * titled in.
+ */
+export async function searchTmdbTitles(query: string, signal: AbortSignal, language = "zh-CN"): Promise<MediaItem[]> {
+    const data = await tmdbGet("TMDb title search", "/search/multi", {
+        query: query,
+        language: language,
+        include_adult: "false",
+        page: "1",
+    }, signal);
+    return (data.results || [])
+        .filter((item: any) => item.media_type === "movie" || item.media_type === "tv")
+        .map((item: any) => tmdbItemToMedia(item, item.media_type));
+}
+
+// ============================================================================
+// TMDb Trending
+// ============================================================================
+
+export type TmdbTrendingWindow = "day" | "week";
+
+/**
+ * TMDb's trending movies and TV shows, most popular first, built from the
+ * list payload alone. "all" also lists people, which are dropped.
+ */
+export async function fetchTmdbTrending(
+    type: "all" | "movie" | "tv",
+    window: TmdbTrendingWindow,
+    signal: AbortSignal
+): Promise<MediaItem[]> {
+    const data = await tmdbGet("TMDb trending", `/trending/${type}/${window}`, {
+        language: "zh-CN",
+    }, signal);
+    return (data.results || [])
+        .map((item: any) => ({ ...item, media_type: item.media_type || type }))
+        .filter((item: any) => item.media_type === "movie" || item.media_type === "tv")
+        .map((item: any) => tmdbItemToMedia(item, item.media_type));
+}
+
+// ============================================================================
+// TMDb Recommendations
+// ============================================================================
+
+/**
+ * A movie or show (with credits) and TMDb's recommendations for it, in one
+ * request. Recommendations are built from the list payload alone, so they
+ * have no genres or credits.
+ */
+export async function fetchTmdbRecommendations(
+    id: string,
+    mediaType: "movie" | "tv",
+    signal: AbortSignal
+): Promise<{ subject: MediaItem; recommendations: MediaItem[] }> {
+    const detail = await tmdbGet("TMDb recommendations", `/${mediaType}/${id}`, {
+        language: "zh-CN",
+        append_to_response: "credits,external_ids,recommendations",
+    }, signal);
+    return {
+        subject: tmdbItemToMedia(detail, mediaType),
+        recommendations: (detail.recommendations?.results || [])
+            .map((item: any) => tmdbItemToMedia(item, item.media_type || mediaType)),
+    };
+}
+
+// ============================================================================
+// TMDb Detail
+// ============================================================================
+
+/**
+ * Raw detail payload (with credits) for one movie or TV show
+ */
+function fetchTmdbDetailJson(id: string, mediaType: string, signal: AbortSignal): Promise<any> {
+    return tmdbGet("TMDb detail", `/${mediaType}/${id}`, {
+        language: "zh-CN",
+        append_to_response: "credits,external_ids",
+    }, signal);
+}
+
+async function tmdbDetail(
+    id: string,
+    { signal, mediaType = "movie" }: ProviderDetailOptions
+): Promise<MediaItem | null> {
+    let detail: any;
+    try {
+        detail = await fetchTmdbDetailJson(id, mediaType, signal);
+    } catch (e) {
+        if (isNotFound(e)) return null;
+        throw e;
+    }
+    return tmdbItemToMedia(detail, mediaType, { fullCredits: true });
+}
+
+/**
+ * Detail for a search hit, falling back to the search payload if it fails
+ */
+async function fetchTmdbDetails(item: any, signal: AbortSignal): Promise<MediaItem | null> {
+    try {
+        const detail = await fetchTmdbDetailJson(item.id.toString(), item.media_type, signal);
+        return tmdbItemToMedia(detail, item.media_type);
+    } catch (e) {
+        console.error(`TMDb detail fetch error for ${item.id}:`, e);
+        return tmdbItemToMedia(item, item.media_type);
+    }
+}
+
+export function tmdbItemToMedia(
+    item: any,
+    mediaType: string,
+    { fullCredits = false }: { fullCredits?: boolean } = {}
+): MediaItem {
+    const isMovie = mediaType === "movie";
+    const id = item.id?.toString() || "";
+    const titleZh = isMovie ? item.title : item.name;
+    const titleOriginal = isMovie ? item.original_title : item.original_name;
+    const releaseDate = isMovie
+        ? item.release_date || "未知日期"
+        : item.first_air_date || "未知日期";
+
+    let year = "----";
+    if (releaseDate && releaseDate !== "未知日期" && releaseDate.length >= 4) {
+        year = releaseDate.substring(0, 4);
+    }
+
+    const posterPath = item.poster_path;
+    const posterUrl = posterPath
+        ? `https://image.tmdb.org/t/p/w500${posterPath}`
+        : "";
+    const rating = item.vote_average || 0;
+
+    // Duration
+    let duration = "未知";
+    if (isMovie && item.runtime) {
+        duration = `${item.runtime}分钟`;
+    } else if (!isMovie) {
+        if (item.number_of_episodes) {
+            duration = `共${item.number_of_episodes}集`;
+        } else if (item.episode_run_time?.length) {
+            duration = `${item.episode_run_time[0]}分钟/集`;
+        }
+    }
+
+    // Staff
+    let directors: string[] = [];
+    let actors: string[] = [];
+
+    if (item.credits) {
+        const crew = item.credits.crew || [];
+        directors = crew
+            .filter((m: any) => m.job === "Director")
+            .map((m: any) => m.name)
+            .slice(0, 3);
+
+        const cast = item.credits.cast || [];
+        actors = cast.map((m: any) => m.name).slice(0, 5);
+
+        if (!isMovie && item.created_by) {
+            directors.push(...item.created_by.map((c: any) => c.name));
+        }
+    }
+
+    const summary = item.overview || "暂无简介";
+
+    // Detail payloads carry the IMDb id (movies also at the top level)
+    const imdbId = item.external_ids?.imdb_id || item.imdb_id;
+
+    const media = createMediaItem({
+        sourceType: "tmdb",
+        sourceId: id,
+        sourceUrl: `https://www.themoviedb.org/${mediaType}/${id}`,
+        mediaType: mediaType,
+        titleZh: titleZh || "未知标题",
+        titleOriginal: titleOriginal || "",
+        releaseDate: releaseDate,
+        duration: duration,
+        year: year,
+        posterUrl: posterUrl,
+        summary: summary,
+        staff: "",
+        directors: directors,
+        actors: actors,
+        rating: rating,
+        ratingImdb: rating,
+        genres: item.genres?.map((g: any) => g.name) || [],
+        externalIds: imdbId ? { imdb: imdbId } : undefined,
+    });
+
+    if (fullCredits && item.credits) {
+        media.cast = (item.credits.cast || []).map((m: any) => ({
+            name: m.name,
+            role: m.character || "",
+            avatarUrl: tmdbProfileUrl(m.profile_path),
+        }));
+        media.crew = (item.credits.crew || []).map((m: any) => ({
+            name: m.name,
+            role: m.job || "",
+            avatarUrl: tmdbProfileUrl(m.profile_path),
+        }));
+    }
+
+    return media;
+}
+
+function tmdbProfileUrl(path: string | null | undefined): string | undefined {
+    return path ? `https://image.tmdb.org/t/p/w185${path}` : undefined;
+}
+
+export const tmdbProvider: MediaProvider = {
+    id: "tmdb",
+    name: "TMDb",
+    mediaTypes: ["movie", "tv"],
+    completenessWeight: 10,
+    relevanceWeight: 5,
+    timeoutMs: 8000,
+    cachePolicy: { ttl: 6 * 3600, staleWhileRevalidate: 24 * 3600 },
+    search: searchTmdb,
+    searchListing: (query, { signal }) => searchTmdbTitles(query, signal),
+    detail: tmdbDetail,
+    searchPeople: searchTmdbPeople,
+    personWorks: tmdbPersonWorks,
+};
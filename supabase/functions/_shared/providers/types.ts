@@ -0,0 +1,83 @@
+import { CachePolicy } from "../cache.ts";
+import { MediaItem } from "../media.ts";
+import { Person } from "../people.ts";
+import { SearchFilters } from "../query.ts";
+
+// ============================================================================
+// Provider Contract
+// ============================================================================
+
+export type MediaKind = "movie" | "tv" | "anime";
+
+export type SearchType = "all" | MediaKind;
+
+export const SEARCH_TYPES: SearchType[] = ["all", "anime", "movie", "tv"];
+
+/**
+ * Where a provider's next page starts, in the provider's own terms
+ * (TMDb/Bangumi page + index within it, Douban start offset, ...)
+ */
+export type ProviderPosition = Record<string, number>;
+
+export interface ProviderSearchOptions {
+    signal: AbortSignal;
+    // Requested search type; providers that mix media types narrow on it
+    searchType?: SearchType;
+    // Position returned as `next` by the previous page; omitted for the first page
+    position?: ProviderPosition;
+    // Structured query filters. Providers narrow upstream on the ones they can;
+    // every filter is applied again after merging.
+    filters?: SearchFilters;
+}
+
+export interface ProviderPage {
+    items: MediaItem[];
+    // null once the source has no more results
+    next: ProviderPosition | null;
+}
+
+export interface ProviderDetailOptions {
+    signal: AbortSignal;
+    // Needed by sources whose ids are only unique per media type (TMDb)
+    mediaType?: string;
+}
+
+export interface ProviderListingOptions {
+    signal: AbortSignal;
+}
+
+export interface ProviderPersonOptions {
+    signal: AbortSignal;
+}
+
+/**
+ * A media source that search-media can fan out to.
+ * Each provider lives in its own module and is added to the registry once.
+ */
+export interface MediaProvider {
+    // Matches MediaItem.sourceType
+    id: string;
+    // Human-readable name for logs and status reports
+    name: string;
+    // Media types this source returns; drives per-request selection
+    mediaTypes: MediaKind[];
+    // Bonus in calculateCompletenessScore; decides which source wins a merge
+    completenessWeight: number;
+    // Bonus in calculateRelevanceScore
+    relevanceWeight: number;
+    // Default per-request timeout in ms
+    timeoutMs: number;
+    // How long search results from this source may be cached
+    cachePolicy: CachePolicy;
+
+    search(query: string, opts: ProviderSearchOptions): Promise<ProviderPage>;
+    // First page of hits from the search listing alone, for matching a known
+    // title; set by sources whose search also loads a page per hit
+    searchListing?(query: string, opts: ProviderListingOptions): Promise<MediaItem[]>;
+    // null when the source has no such title (including an upstream 404)
+    detail?(id: string, opts: ProviderDetailOptions): Promise<MediaItem | null>;
+    // People whose name matches the query, with a few known-for works
+    searchPeople?(query: string, opts: ProviderPersonOptions): Promise<Person[]>;
+    // Everything one person worked on, newest first
+    personWorks?(id: string, opts: ProviderPersonOptions): Promise<MediaItem[]>;
+}
@@ -0,0 +1,306 @@
+import { MediaItem } from "./media.ts";
+import { normalizeTitle } from "./normalize/title.ts";
+import { SearchType } from "./providers/types.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Comparison = ">" | ">=" | "<" | "<=" | "=";
+
+// "any" compares the best rating the item has from any source
+export type RatingField =
+    | "any"
+    | "ratingDouban"
+    | "ratingImdb"
+    | "ratingBangumi"
+    | "ratingMaoyan";
+
+export interface RatingFilter {
+    field: RatingField;
+    op: Comparison;
+    value: number;
+}
+
+export interface SearchFilters {
+    // Inclusive year range
+    year?: { min: number; max: number };
+    directors: string[];
+    actors: string[];
+    type?: SearchType;
+    // Provider ids (source:bgm,tmdb)
+    sources: string[];
+    ratings: RatingFilter[];
+}
+
+export interface ParsedQuery {
+    // The query with every filter token removed
+    text: string;
+    filters: SearchFilters;
+}
+
+/**
+ * Malformed filter in a search query; reported to the client as a 400
+ */
+export class QuerySyntaxError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "QuerySyntaxError";
+    }
+}
+
+// ============================================================================
+// Filter Keys
+// ============================================================================
+
+type FilterKind = "year" | "director" | "actor" | "type" | "source" | RatingField;
+
+// Accepted spellings of each filter key, lowercase
+const FILTER_KEYS: Record<string, FilterKind> = {
+    year: "year", "年份": "year", "年代": "year", "年": "year",
+    director: "director", "导演": "director", "導演": "director",
+    actor: "actor", cast: "actor", "演员": "actor", "演員": "actor", "主演": "actor",
+    type: "type", "类型": "type", "類型": "type",
+    source: "source", "来源": "source", "來源": "source",
+    rating: "any", "评分": "any", "評分": "any",
+    douban: "ratingDouban", "豆瓣": "ratingDouban",
+    imdb: "ratingImdb",
+    bgm: "ratingBangumi", bangumi: "ratingBangumi",
+    maoyan: "ratingMaoyan", "猫眼": "ratingMaoyan",
+};
+
+const TYPE_VALUES: Record<string, SearchType> = {
+    all: "all", "全部": "all",
+    movie: "movie", "电影": "movie", "電影": "movie",
+    tv: "tv", "剧集": "tv", "电视剧": "tv", "電視劇": "tv",
+    anime: "anime", "动画": "anime", "動畫": "anime", "番剧": "anime",
+};
+
+const YEAR_MIN = 1870;
+const YEAR_MAX = 2100;
+
+// key, operator, value; the value may still be quoted
+const FILTER_TOKEN = /^([a-z\u4e00-\u9fa5]+)\s*(>=|<=|>|<|=|:|：)(.*)$/i;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Split on whitespace outside of quotes ("..." or “...”), keeping the quotes
+ */
+function tokenize(query: string): string[] {
+    const tokens: string[] = [];
+    let current = "";
+    let closingQuote: string | null = null;
+
+    for (const char of query) {
+        if (closingQuote) {
+            current += char;
+            if (char === closingQuote) closingQuote = null;
+        } else if (char === '"' || char === "“") {
+            current += char;
+            closingQuote = char === '"' ? '"' : "”";
+        } else if (/\s/.test(char)) {
+            if (current) tokens.push(current);
+            current = "";
+        } else {
+            current += char;
+        }
+    }
+
+    if (closingQuote) {
+        throw new QuerySyntaxError(`Unterminated quote in query: ${current}`);
+    }
+    if (current) tokens.push(current);
+    return tokens;
+}
+
+function unquote(value: string): string {
+    return value.trim().replace(/^["“](.*)["”]$/, "$1").trim();
+}
+
+function parseYear(key: string, value: string): number {
+    if (!/^\d{4}$/.test(value)) {
+        throw new QuerySyntaxError(`Invalid year "${value}" in ${key} filter, expected e.g. ${key}:2001`);
+    }
+    const year = parseInt(value, 10);
+    if (year < YEAR_MIN || year > YEAR_MAX) {
+        throw new QuerySyntaxError(`Year ${year} in ${key} filter is out of range`);
+    }
+    return year;
+}
+
+/**
+ * year:2001, year:2000-2005, year>=2000, year<2010
+ */
+function parseYearRange(key: string, op: string, value: string): { min: number; max: number } {
+    if (op === ":" || op === "=") {
+        const range = value.match(/^(\d+)\s*(?:-|~|\.\.)\s*(\d+)$/);
+        if (range) {
+            const min = parseYear(key, range[1]);
+            const max = parseYear(key, range[2]);
+            if (min > max) throw new QuerySyntaxError(`Empty year range "${value}"`);
+            return { min, max };
+        }
+        const year = parseYear(key, value);
+        return { min: year, max: year };
+    }
+
+    const year = parseYear(key, value);
+    switch (op) {
+        case ">": return { min: year + 1, max: YEAR_MAX };
+        case ">=": return { min: year, max: YEAR_MAX };
+        case "<": return { min: YEAR_MIN, max: year - 1 };
+        default: return { min: YEAR_MIN, max: year };
+    }
+}
+
+function parseRating(key: string, field: RatingField, op: string, value: string): RatingFilter {
+    const rating = Number(value);
+    if (!/^\d+(\.\d+)?$/.test(value) || rating > 10) {
+        throw new QuerySyntaxError(`Invalid rating "${value}" in ${key} filter, expected a number from 0 to 10`);
+    }
+    // rating:8 reads as "at least 8"
+    const comparison = op === ":" ? ">=" : op as Comparison;
+    return { field, op: comparison, value: rating };
+}
+
+function requireEquality(key: string, op: string): void {
+    if (op !== ":" && op !== "=") {
+        throw new QuerySyntaxError(`The ${key} filter does not support "${op}", use ${key}:value`);
+    }
+}
+
+/**
+ * Parse filter tokens (`year:2001`, `导演:宫崎骏`, `type:tv`, `source:bgm`,
+ * `rating>8`) out of a search query. Tokens whose key isn't a known filter
+ * stay part of the title text, so titles with colons are unaffected.
+ */
+export function parseQuery(query: string): ParsedQuery {
+    const filters: SearchFilters = { directors: [], actors: [], sources: [], ratings: [] };
+    const words: string[] = [];
+
+    for (const token of tokenize(query)) {
+        const match = token.match(FILTER_TOKEN);
+        const kind = match ? FILTER_KEYS[match[1].toLowerCase()] : undefined;
+        if (!match || !kind) {
+            words.push(unquote(token));
+            continue;
+        }
+
+        const key = match[1];
+        const op = match[2] === "：" ? ":" : match[2];
+        const value = unquote(match[3]);
+        if (!value) {
+            throw new QuerySyntaxError(`Missing value for the ${key} filter`);
+        }
+
+        switch (kind) {
+            case "year": {
+                const range = parseYearRange(key, op, value);
+                const min = Math.max(range.min, filters.year?.min ?? YEAR_MIN);
+                const max = Math.min(range.max, filters.year?.max ?? YEAR_MAX);
+                if (min > max) throw new QuerySyntaxError("Year filters do not overlap");
+                filters.year = { min, max };
+                break;
+            }
+            case "director":
+            case "actor":
+                requireEquality(key, op);
+                (kind === "director" ? filters.directors : filters.actors).push(value);
+                break;
+            case "type": {
+                requireEquality(key, op);
+                const type = TYPE_VALUES[value.toLowerCase()];
+                if (!type) {
+                    throw new QuerySyntaxError(
+                        `Unknown type "${value}" in ${key} filter, expected one of: movie, tv, anime, all`
+                    );
+                }
+                if (filters.type && filters.type !== type) {
+                    throw new QuerySyntaxError(`Conflicting type filters: ${filters.type} and ${type}`);
+                }
+                filters.type = type;
+                break;
+            }
+            case "source":
+                requireEquality(key, op);
+                for (const id of value.split(/[,，]/).map((s) => s.trim()).filter((s) => s)) {
+                    if (!filters.sources.includes(id)) filters.sources.push(id);
+                }
+                break;
+            default:
+                filters.ratings.push(parseRating(key, kind, op, value));
+        }
+    }
+
+    return { text: words.join(" ").trim(), filters };
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function compare(actual: number, op: Comparison, expected: number): boolean {
+    switch (op) {
+        case ">": return actual > expected;
+        case ">=": return actual >= expected;
+        case "<": return actual < expected;
+        case "<=": return actual <= expected;
+        default: return actual === expected;
+    }
+}
+
+function ratingOf(item: MediaItem, field: RatingField): number {
+    if (field !== "any") return item[field] || 0;
+    return Math.max(
+        item.rating || 0,
+        item.ratingDouban || 0,
+        item.ratingImdb || 0,
+        item.ratingBangumi || 0,
+        item.ratingMaoyan || 0
+    );
+}
+
+/**
+ * A person filter matches a listed name, a full credit, or failing those
+ * the free-text staff line (Douban and Bangumi hits only have that)
+ */
+function creditsInclude(names: string[], staff: string, wanted: string): boolean {
+    const target = normalizeTitle(wanted);
+    if (!target) return false;
+    const matches = (name: string) => {
+        const normalized = normalizeTitle(name);
+        return normalized === target || (target.length >= 2 && normalized.includes(target));
+    };
+    return names.some(matches) || normalizeTitle(staff).includes(target);
+}
+
+/**
+ * Post-merge filtering on year, people and ratings. Type and source filters
+ * are applied by provider selection instead.
+ */
+export function matchesFilters(item: MediaItem, filters: SearchFilters): boolean {
+    if (filters.year) {
+        const year = parseInt(item.year, 10);
+        if (isNaN(year) || year < filters.year.min || year > filters.year.max) return false;
+    }
+
+    const directors = [...(item.directors || []), ...(item.crew || []).map((c) => c.name)];
+    if (!filters.directors.every((name) => creditsInclude(directors, item.staff, name))) {
+        return false;
+    }
+
+    const actors = [...(item.actors || []), ...(item.cast || []).map((c) => c.name)];
+    if (!filters.actors.every((name) => creditsInclude(actors, item.staff, name))) {
+        return false;
+    }
+
+    return filters.ratings.every(({ field, op, value }) => compare(ratingOf(item, field), op, value));
+}
+
+export function hasPostFilters(filters: SearchFilters): boolean {
+    return Boolean(filters.year) || filters.directors.length > 0 ||
+        filters.actors.length > 0 || filters.ratings.length > 0;
+}
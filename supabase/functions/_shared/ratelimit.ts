@@ -0,0 +1,115 @@
+import { getServiceClient } from "./supabase.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BucketPolicy {
+    // Burst size: tokens a full bucket holds
+    capacity: number;
+    // Sustained rate: tokens added back per second
+    refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    // Whole tokens left after this call
+    remaining: number;
+    // Seconds until the next token is available; 0 when allowed
+    retryAfterSeconds: number;
+}
+
+/**
+ * Storage backend for token buckets. `consume` takes one token from the
+ * bucket at `key`, creating it full on first use.
+ */
+export interface RateLimitStore {
+    consume(key: string, policy: BucketPolicy): Promise<RateLimitResult>;
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+/**
+ * Process-local buckets, used in tests and when no database is configured.
+ * Each edge isolate keeps its own, so limits are per instance.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private buckets = new Map<string, Bucket>();
+
+    constructor(private maxEntries = 10000, private now: () => number = Date.now) {}
+
+    consume(key: string, policy: BucketPolicy): Promise<RateLimitResult> {
+        const now = this.now();
+        const bucket = this.buckets.get(key);
+        const elapsed = bucket ? (now - bucket.updatedAt) / 1000 : 0;
+        const tokens = bucket
+            ? Math.min(policy.capacity, bucket.tokens + elapsed * policy.refillPerSecond)
+            : policy.capacity;
+
+        const allowed = tokens >= 1;
+        const left = allowed ? tokens - 1 : tokens;
+
+        // Re-insert so Map order tracks recency, then evict the oldest
+        this.buckets.delete(key);
+        this.buckets.set(key, { tokens: left, updatedAt: now });
+        while (this.buckets.size > this.maxEntries) {
+            const oldest = this.buckets.keys().next().value;
+            if (oldest === undefined) break;
+            this.buckets.delete(oldest);
+        }
+
+        return Promise.resolve({
+            allowed,
+            remaining: Math.floor(left),
+            retryAfterSeconds: allowed ? 0 : (1 - left) / policy.refillPerSecond,
+        });
+    }
+}
+
+/**
+ * Buckets in the `rate_limit_buckets` table, updated atomically by the
+ * `consume_rate_limit` function (see supabase/migrations), so limits hold
+ * across isolates. Database errors fall back to a process-local bucket
+ * rather than failing or waving the request through.
+ */
+export class SupabaseRateLimitStore implements RateLimitStore {
+    private fallback = new MemoryRateLimitStore();
+
+    async consume(key: string, policy: BucketPolicy): Promise<RateLimitResult> {
+        const client = getServiceClient();
+        if (!client) return this.fallback.consume(key, policy);
+
+        const { data, error } = await client.rpc("consume_rate_limit", {
+            p_key: key,
+            p_capacity: policy.capacity,
+            p_refill_per_second: policy.refillPerSecond,
+        });
+
+        const row = Array.isArray(data) ? data[0] : data;
+        if (error || !row) {
+            console.error(`Rate limit check failed for ${key}:`, error?.message ?? "no result");
+            return this.fallback.consume(key, policy);
+        }
+
+        return {
+            allowed: Boolean(row.allowed),
+            remaining: Math.floor(Number(row.remaining) || 0),
+            retryAfterSeconds: Number(row.retry_after) || 0,
+        };
+    }
+}
+
+/**
+ * Default store: the Postgres table when service credentials are present,
+ * otherwise in-memory buckets
+ */
+export function createRateLimitStore(): RateLimitStore {
+    return getServiceClient() ? new SupabaseRateLimitStore() : new MemoryRateLimitStore();
+}
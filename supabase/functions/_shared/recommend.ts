@@ -0,0 +1,182 @@
+import { CollectedMedia, CollectionStatus, findCollected } from "./collections.ts";
+import { deduplicateResults } from "./dedup.ts";
+import { MediaItem } from "./media.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Collection statuses recommendations are drawn from, and how much each counts
+export const SEED_WEIGHTS: Partial<Record<CollectionStatus, number>> = {
+    watched: 1,
+    wish: 0.5,
+};
+
+/**
+ * A collected title with what its sources recommend from it
+ */
+export interface Seed {
+    collected: CollectedMedia;
+    weight: number;
+    // The title as its source describes it (genres, credits); null when it
+    // couldn't be loaded
+    subject: MediaItem | null;
+    candidates: MediaItem[];
+}
+
+/**
+ * Seed weight per genre, director and actor across the collection
+ */
+export interface TasteProfile {
+    genres: Map<string, number>;
+    directors: Map<string, number>;
+    actors: Map<string, number>;
+    // Sum of seed weights; affinities are relative to it
+    totalWeight: number;
+}
+
+export interface Recommendation extends MediaItem {
+    recommendationScore: number;
+    // The seed that contributed most to the pick
+    because: {
+        mediaId: string;
+        titleZh: string;
+        status: CollectionStatus;
+    };
+    // e.g. "因为你看过《千与千寻》"
+    reason: string;
+}
+
+// Per unit of seed weight recommending a title
+const VOTE_WEIGHT = 1;
+// Per unit of affinity (0-1) with the profile
+const GENRE_WEIGHT = 0.5;
+const DIRECTOR_WEIGHT = 1;
+const ACTOR_WEIGHT = 0.5;
+// Per rating point out of 10
+const RATING_WEIGHT = 0.05;
+
+// ============================================================================
+// Taste Profile
+// ============================================================================
+
+function addAll(counts: Map<string, number>, values: string[], weight: number): void {
+    for (const value of new Set(values)) {
+        counts.set(value, (counts.get(value) ?? 0) + weight);
+    }
+}
+
+/**
+ * Weighted genres, directors and actors of the seeds. Genres only come from
+ * the sources (the media table doesn't keep them); credits from both.
+ */
+export function buildTasteProfile(seeds: Seed[]): TasteProfile {
+    const profile: TasteProfile = { genres: new Map(), directors: new Map(), actors: new Map(), totalWeight: 0 };
+
+    for (const { collected, weight, subject } of seeds) {
+        profile.totalWeight += weight;
+        addAll(profile.genres, subject?.genres ?? [], weight);
+        addAll(profile.directors, [...collected.media.directors, ...subject?.directors ?? []], weight);
+        addAll(profile.actors, [...collected.media.actors, ...subject?.actors ?? []], weight);
+    }
+    return profile;
+}
+
+/**
+ * How strongly a title's values match the profile, from 0 to 1
+ */
+function affinity(values: string[], counts: Map<string, number>, totalWeight: number): number {
+    if (totalWeight === 0) return 0;
+    let sum = 0;
+    for (const value of new Set(values)) sum += counts.get(value) ?? 0;
+    return Math.min(1, sum / totalWeight);
+}
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+function sourceKey(sourceType: string, sourceId: string): string {
+    return `${sourceType}:${sourceId}`;
+}
+
+function sourceKeys(item: MediaItem): string[] {
+    return (item.sources ?? [item]).map((source) => sourceKey(source.sourceType, source.sourceId));
+}
+
+/**
+ * Whether a candidate is already in the collection: on one of its sources,
+ * or the same title by areSameMedia
+ */
+export function isCollected(item: MediaItem, collected: CollectedMedia[]): boolean {
+    return findCollected(item, collected) !== undefined;
+}
+
+/**
+ * Every seed's candidates merged like search results, without collected
+ * titles, each with the seeds that recommended it (strongest first)
+ */
+export function collectCandidates(seeds: Seed[], collected: CollectedMedia[]): { item: MediaItem; seeds: Seed[] }[] {
+    const recommendedBy = new Map<string, Seed[]>();
+    for (const seed of seeds) {
+        for (const candidate of seed.candidates) {
+            const key = sourceKey(candidate.sourceType, candidate.sourceId);
+            const list = recommendedBy.get(key) ?? [];
+            if (!list.includes(seed)) list.push(seed);
+            recommendedBy.set(key, list);
+        }
+    }
+
+    const merged = deduplicateResults(seeds.flatMap((seed) => seed.candidates));
+    return merged
+        .filter((item) => !isCollected(item, collected))
+        .map((item) => {
+            const bySeed = new Set(sourceKeys(item).flatMap((key) => recommendedBy.get(key) ?? []));
+            return { item, seeds: [...bySeed].sort((a, b) => b.weight - a.weight) };
+        });
+}
+
+/**
+ * Score a candidate: the weight of the seeds recommending it, its affinity
+ * with the profile and, a little, its rating
+ */
+export function scoreCandidate(item: MediaItem, seeds: Seed[], profile: TasteProfile): number {
+    const votes = seeds.reduce((sum, seed) => sum + seed.weight, 0);
+    const score = VOTE_WEIGHT * votes +
+        GENRE_WEIGHT * affinity(item.genres, profile.genres, profile.totalWeight) +
+        DIRECTOR_WEIGHT * affinity(item.directors, profile.directors, profile.totalWeight) +
+        ACTOR_WEIGHT * affinity(item.actors, profile.actors, profile.totalWeight) +
+        RATING_WEIGHT * item.rating;
+    return Math.round(score * 1000) / 1000;
+}
+
+function reasonFor(seed: Seed): string {
+    const title = `《${seed.collected.media.titleZh}》`;
+    return seed.collected.status === "wish" ? `因为你想看${title}` : `因为你看过${title}`;
+}
+
+/**
+ * Scored candidates, best first, each explained by its strongest seed.
+ * Ties go to the higher rating.
+ */
+export function rankRecommendations(
+    candidates: { item: MediaItem; seeds: Seed[] }[],
+    profile: TasteProfile
+): Recommendation[] {
+    return candidates
+        .filter(({ seeds }) => seeds.length > 0)
+        .map(({ item, seeds }) => {
+            const seed = seeds[0];
+            return {
+                ...item,
+                recommendationScore: scoreCandidate(item, seeds, profile),
+                because: {
+                    mediaId: seed.collected.mediaId,
+                    titleZh: seed.collected.media.titleZh,
+                    status: seed.collected.status,
+                },
+                reason: reasonFor(seed),
+            };
+        })
+        .sort((a, b) => b.recommendationScore - a.recommendationScore || b.rating - a.rating);
+}
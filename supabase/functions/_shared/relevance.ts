@@ -0,0 +1,152 @@
+import { normalizeTitle } from "./dedup.ts";
+import { MediaItem } from "./media.ts";
+import { editSimilarity, fuzzySimilarity } from "./normalize/similarity.ts";
+import { providerRegistry } from "./providers/registry.ts";
+
+// ============================================================================
+// Relevance Scoring & Filtering
+// ============================================================================
+
+/**
+ * Per-component relevance score, returned on each item when `debug` is set
+ */
+export interface RelevanceBreakdown {
+    // Best title score and how it was reached
+    title: number;
+    titleMatch: "exact" | "prefix" | "partial" | "contains" | "fuzzy" | "none";
+    titleField: "titleZh" | "titleOriginal" | null;
+    // Best fuzzy similarity (0-1) between the query and either title
+    similarity: number;
+    // Director / actor name matches
+    people: number;
+    matchedPeople: string[];
+    // +30 per extra source the item was merged from
+    multiSource: number;
+    // Known/popular content has a rating
+    rating: number;
+    // Provider relevanceWeight
+    source: number;
+    total: number;
+}
+
+export type ScoredMediaItem = MediaItem & { relevance?: RelevanceBreakdown };
+
+// Fuzzy title matches only count above this similarity, and score below "contains"
+const MIN_TITLE_SIMILARITY = 0.5;
+const FUZZY_TITLE_WEIGHT = 50;
+const MIN_NAME_SIMILARITY = 0.8;
+
+/**
+ * Score one normalized title against the normalized query
+ */
+function scoreTitle(
+    query: string,
+    title: string
+): { score: number; match: RelevanceBreakdown["titleMatch"]; similarity: number } {
+    if (!title) return { score: 0, match: "none", similarity: 0 };
+
+    if (title === query) return { score: 100, match: "exact", similarity: 1 };
+    if (title.startsWith(query)) return { score: 80, match: "prefix", similarity: 1 };
+    // Query starts with the title (query carries extra words)
+    if (title.length >= 2 && query.startsWith(title)) {
+        return { score: 70, match: "partial", similarity: 1 };
+    }
+    if (title.includes(query)) return { score: 60, match: "contains", similarity: 1 };
+
+    // Typos and partial romanizations: compare against the whole title and
+    // against its head, so a typo'd prefix of a long title still counts
+    const head = [...title].slice(0, [...query].length).join("");
+    const similarity = Math.max(
+        fuzzySimilarity(query, title),
+        editSimilarity(query, head)
+    );
+    if (similarity < MIN_TITLE_SIMILARITY) return { score: 0, match: "none", similarity };
+    return { score: Math.floor(similarity * FUZZY_TITLE_WEIGHT), match: "fuzzy", similarity };
+}
+
+function matchesName(query: string, name: string): boolean {
+    const normalized = normalizeTitle(name);
+    if (normalized.length < 2) return false;
+    if (query.includes(normalized)) return true;
+    if (query.length >= 2 && normalized.includes(query)) return true;
+    return fuzzySimilarity(query, normalized) >= MIN_NAME_SIMILARITY;
+}
+
+/**
+ * Calculate relevance score for a search result
+ * Higher score = more relevant
+ */
+export function calculateRelevanceScore(item: MediaItem, query: string): RelevanceBreakdown {
+    // Same folding as deduplication, so 進撃の巨人 scores against 进击的巨人
+    // (a query that is all punctuation is kept as typed)
+    const normalizedQuery = normalizeTitle(query) || query.toLowerCase().trim();
+
+    // Best of both titles
+    const zh = scoreTitle(normalizedQuery, normalizeTitle(item.titleZh));
+    const original = scoreTitle(normalizedQuery, normalizeTitle(item.titleOriginal));
+    const best = original.score > zh.score ? original : zh;
+    const titleField = best.match === "none" ? null : best === original ? "titleOriginal" : "titleZh";
+
+    // Searching by a director or actor name surfaces their work
+    const directors = (item.directors || []).filter((name) => matchesName(normalizedQuery, name));
+    const actors = (item.actors || []).filter((name) => matchesName(normalizedQuery, name));
+    const people = (directors.length > 0 ? 40 : 0) + (actors.length > 0 ? 25 : 0);
+
+    // Boost for multi-source matches (highest priority)
+    // If an item is found in multiple sources, it's very likely the correct one
+    const multiSource = item.matchCount && item.matchCount > 1 ? (item.matchCount - 1) * 30 : 0;
+
+    // Bonus for having a rating (indicates known/popular content)
+    const hasRating = item.rating > 0 || item.ratingImdb > 0 || item.ratingDouban > 0 ||
+        item.ratingMaoyan > 0 || item.ratingBangumi > 0;
+    const rating = hasRating ? 10 : 0;
+
+    // Source priority for non-anime queries (TMDb/Maoyan typically more relevant for movies/TV)
+    const source = providerRegistry.get(item.sourceType)?.relevanceWeight ?? 0;
+
+    return {
+        title: best.score,
+        titleMatch: best.match,
+        titleField,
+        similarity: Math.round(Math.max(zh.similarity, original.similarity) * 100) / 100,
+        people,
+        matchedPeople: [...directors, ...actors],
+        multiSource,
+        rating,
+        source,
+        total: best.score + people + multiSource + rating + source,
+    };
+}
+
+export function filterRelevantResults(results: MediaItem[], query?: string, debug = false): ScoredMediaItem[] {
+    let filtered: ScoredMediaItem[] = results.filter((item) => {
+        if (!item.posterUrl) return false;
+        if (!item.titleZh || item.titleZh === "未知标题") return false;
+        return true;
+    });
+
+    // If query is provided, calculate relevance and sort
+    if (query) {
+        // Calculate relevance scores
+        const scoredResults = filtered.map((item) => ({
+            item,
+            relevance: calculateRelevanceScore(item, query),
+        }));
+
+        // Filter out very low relevance results (score < 10)
+        const relevantResults = scoredResults.filter((r) => r.relevance.total >= 10);
+
+        // Sort by score descending
+        relevantResults.sort((a, b) => b.relevance.total - a.relevance.total);
+
+        // Log for debugging
+        console.log(`Relevance scores for "${query}":`);
+        relevantResults.slice(0, 5).forEach((r) => {
+            console.log(`  ${r.item.titleZh} (${r.item.sourceType}): ${r.relevance.total}`);
+        });
+
+        filtered = relevantResults.map((r) => (debug ? { ...r.item, relevance: r.relevance } : r.item));
+    }
+
+    return filtered;
+}
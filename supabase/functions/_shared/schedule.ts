@@ -0,0 +1,194 @@
+import { MediaItem } from "./media.ts";
+import {
+    BANGUMI_WEEKDAYS,
+    BangumiCalendarEntry,
+    BangumiEpisode,
+    BangumiWeekday,
+} from "./providers/bangumi.ts";
+import { providerFetch, readJson } from "./providers/http.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// bgm.tv lists the calendar in China time
+export const SOURCE_TIME_ZONE = "Asia/Shanghai";
+
+// Episode air dates on bgm.tv are Japanese broadcast dates
+const AIR_DATE_TIME_ZONE = "Asia/Tokyo";
+
+const DAY_MS = 24 * 3600 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export interface ScheduleEntry {
+    media: MediaItem;
+    // This week's broadcast as an ISO instant; null when no time is known
+    airsAt: string | null;
+    // "HH:MM" of airsAt in the requested time zone
+    airTime: string | null;
+    // Episode airing this week, when bgm.tv lists it
+    episode: number | null;
+    episodeTitle: string;
+}
+
+export type WeeklySchedule = Record<BangumiWeekday, ScheduleEntry[]>;
+
+/**
+ * Everything the schedule is built from; doesn't depend on the caller's time
+ * zone, so one copy is cached per day
+ */
+export interface ScheduleSource {
+    // Monday 00:00 UTC+8 of the listed week, as an ISO instant
+    weekStart: string;
+    entries: (BangumiCalendarEntry & {
+        // First weekly broadcast (ISO instant) from bangumi-data
+        broadcast: string | null;
+    })[];
+    // False when some subject pages couldn't be loaded in time
+    complete: boolean;
+}
+
+// ============================================================================
+// Time Zones
+// ============================================================================
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Local date ("YYYY-MM-DD"), weekday and "HH:MM" of an instant in a time zone
+ */
+export function zonedParts(instant: number, timeZone: string): { date: string; weekday: BangumiWeekday; time: string } {
+    const parts: Record<string, string> = {};
+    const format = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        weekday: "short",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+    });
+    for (const part of format.formatToParts(new Date(instant))) {
+        parts[part.type] = part.value;
+    }
+    return {
+        date: `${parts.year}-${parts.month}-${parts.day}`,
+        weekday: parts.weekday as BangumiWeekday,
+        time: `${parts.hour}:${parts.minute}`,
+    };
+}
+
+/**
+ * Monday 00:00 UTC+8 of the week containing `now`
+ */
+export function weekStartOf(now: number): number {
+    const { date, weekday } = zonedParts(now, SOURCE_TIME_ZONE);
+    return Date.parse(`${date}T00:00:00+08:00`) - BANGUMI_WEEKDAYS.indexOf(weekday) * DAY_MS;
+}
+
+/**
+ * First weekly repeat of a broadcast at or after weekStart
+ */
+export function broadcastInWeek(broadcast: string, weekStart: number): number {
+    const begin = Date.parse(broadcast);
+    const weeks = Math.max(0, Math.ceil((weekStart - begin) / WEEK_MS));
+    return begin + weeks * WEEK_MS;
+}
+
+// ============================================================================
+// Broadcast Times (bangumi-data)
+// ============================================================================
+
+// Community-maintained broadcast times keyed by bgm.tv subject id
+const BANGUMI_DATA_URL = "https://unpkg.com/bangumi-data@0.3/dist/data.json";
+
+/**
+ * bgm.tv subject id -> first weekly broadcast, for shows still airing.
+ * Only weekly ("P7D") schedules are kept.
+ */
+export async function fetchBroadcastTimes(signal: AbortSignal, now = Date.now()): Promise<Map<string, string>> {
+    const response = await providerFetch("bangumi-data", BANGUMI_DATA_URL, {}, signal);
+    const data = await readJson("bangumi-data", response);
+
+    const times = new Map<string, string>();
+    for (const item of data?.items || []) {
+        if (item.end && Date.parse(item.end) < now - WEEK_MS) continue;
+        const begin = (item.broadcast || "").match(/^R\/([^/]+)\/P7D$/)?.[1];
+        const subjectId = (item.sites || []).find((site: any) => site.site === "bangumi")?.id;
+        if (begin && subjectId && !Number.isNaN(Date.parse(begin))) {
+            times.set(String(subjectId), begin);
+        }
+    }
+    return times;
+}
+
+// ============================================================================
+// Weekly Schedule
+// ============================================================================
+
+function dateOffset(date: string, days: number): string {
+    return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * The episode whose air date falls in [from, to]
+ */
+function episodeBetween(episodes: BangumiEpisode[], from: string, to: string): BangumiEpisode | null {
+    return episodes.find((ep) => ep.airDate !== null && ep.airDate >= from && ep.airDate <= to) ?? null;
+}
+
+/**
+ * Bucket the week's shows by weekday in `timeZone`. Shows with a known
+ * broadcast time move to the weekday it falls on locally and are sorted by
+ * it; the rest keep bgm.tv's weekday and follow the timed ones.
+ */
+export function buildSchedule(source: ScheduleSource, timeZone: string): WeeklySchedule {
+    const weekStart = Date.parse(source.weekStart);
+    const weekFrom = zonedParts(weekStart, SOURCE_TIME_ZONE).date;
+    const weekTo = dateOffset(weekFrom, 6);
+
+    const days = Object.fromEntries(BANGUMI_WEEKDAYS.map((day) => [day, [] as ScheduleEntry[]])) as WeeklySchedule;
+
+    for (const entry of source.entries) {
+        if (entry.broadcast) {
+            const airsAt = broadcastInWeek(entry.broadcast, weekStart);
+            const local = zonedParts(airsAt, timeZone);
+            // Late-night slots are sometimes listed under the previous day
+            const airDate = zonedParts(airsAt, AIR_DATE_TIME_ZONE).date;
+            const episode = episodeBetween(entry.episodes, dateOffset(airDate, -1), dateOffset(airDate, 1));
+            days[local.weekday].push({
+                media: entry.media,
+                airsAt: new Date(airsAt).toISOString(),
+                airTime: local.time,
+                episode: episode?.number ?? null,
+                episodeTitle: episode?.title ?? "",
+            });
+        } else {
+            const episode = episodeBetween(entry.episodes, weekFrom, weekTo);
+            days[entry.weekday].push({
+                media: entry.media,
+                airsAt: null,
+                airTime: null,
+                episode: episode?.number ?? null,
+                episodeTitle: episode?.title ?? "",
+            });
+        }
+    }
+
+    for (const day of BANGUMI_WEEKDAYS) {
+        // Stable sort keeps bgm.tv's order among untimed shows
+        days[day].sort((a, b) => {
+            if (a.airTime && b.airTime) return a.airTime.localeCompare(b.airTime);
+            return a.airTime ? -1 : b.airTime ? 1 : 0;
+        });
+    }
+    return days;
+}
@@ -0,0 +1,20 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+let serviceClient: SupabaseClient | null = null;
+
+/**
+ * Service-role Supabase client for server-side tables (bypasses RLS).
+ * Returns null when the function secrets are not available, e.g. in tests.
+ */
+export function getServiceClient(): SupabaseClient | null {
+    if (serviceClient) return serviceClient;
+
+    const url = Deno.env.get("SUPABASE_URL");
+    const key = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!url || !key) return null;
+
+    serviceClient = createClient(url, key, {
+        auth: { persistSession: false, autoRefreshToken: false },
+    });
+    return serviceClient;
+}
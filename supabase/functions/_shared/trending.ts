@@ -0,0 +1,69 @@
+import { deduplicateResults } from "./dedup.ts";
+import { MediaItem } from "./media.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One source's trending list, most popular first
+ */
+export interface TrendingList {
+    source: string;
+    items: MediaItem[];
+}
+
+export interface TrendingItem extends MediaItem {
+    // Cross-source popularity the feed is ranked by
+    trendingScore: number;
+}
+
+// Each list's top entry is worth this much; the rest fall off linearly, so
+// lists of different lengths weigh the same
+const SOURCE_WEIGHTS: Record<string, number> = {
+    tmdb: 1,
+    bgm: 1,
+    maoyan: 1,
+};
+
+// Added per extra source an item was found on, on top of its rank there
+const MATCH_BONUS = 0.5;
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+function sourceKey(sourceType: string, sourceId: string): string {
+    return `${sourceType}:${sourceId}`;
+}
+
+/**
+ * Merge the lists like search results and rank the merged items by
+ * popularity: the rank score of every list entry merged into an item, plus a
+ * bonus for each extra source (matchCount). Ties go to the higher rating.
+ */
+export function rankTrending(lists: TrendingList[]): TrendingItem[] {
+    const rankScores = new Map<string, number>();
+    for (const { source, items } of lists) {
+        const weight = SOURCE_WEIGHTS[source] ?? 1;
+        items.forEach((item, rank) => {
+            const key = sourceKey(item.sourceType, item.sourceId);
+            const score = weight * (1 - rank / items.length);
+            // A source listing the same entry twice only counts its best rank
+            rankScores.set(key, Math.max(rankScores.get(key) ?? 0, score));
+        });
+    }
+
+    const merged = deduplicateResults(lists.flatMap(({ items }) => items));
+    return merged
+        .map((item) => {
+            const sources = item.sources ?? [item];
+            const rankScore = sources.reduce(
+                (sum, source) => sum + (rankScores.get(sourceKey(source.sourceType, source.sourceId)) ?? 0),
+                0
+            );
+            const trendingScore = rankScore + MATCH_BONUS * ((item.matchCount || 1) - 1);
+            return { ...item, trendingScore: Math.round(trendingScore * 1000) / 1000 };
+        })
+        .sort((a, b) => b.trendingScore - a.trendingScore || b.rating - a.rating);
+}
@@ -0,0 +1,214 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AuthContext, withAuth } from "../_shared/auth.ts";
+import { CachePolicy, CacheStatus, ResponseCache } from "../_shared/cache.ts";
+import { AppError, errorResponse } from "../_shared/errors.ts";
+import {
+    BangumiCalendarEntry,
+    fetchBangumiCalendar,
+    loadBangumiCalendarDetail,
+} from "../_shared/providers/bangumi.ts";
+import { mapWithConcurrency, withTimeout } from "../_shared/providers/http.ts";
+import {
+    buildSchedule,
+    fetchBroadcastTimes,
+    isValidTimeZone,
+    ScheduleSource,
+    SOURCE_TIME_ZONE,
+    weekStartOf,
+    WeeklySchedule,
+    zonedParts,
+} from "../_shared/schedule.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+        "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface ScheduleRequest {
+    // IANA time zone the weekday buckets and air times are given in
+    // (default Asia/Shanghai, the zone bgm.tv uses); also read from ?timezone=
+    timezone?: string;
+}
+
+interface ScheduleResponse {
+    timezone: string;
+    // Monday 00:00 UTC+8 of the listed week
+    weekStart: string;
+    days: WeeklySchedule;
+    // False when some shows lack summaries and episodes (subject pages timed out)
+    complete: boolean;
+}
+
+function validateScheduleRequest(body: ScheduleRequest): string {
+    const timezone = body.timezone ?? SOURCE_TIME_ZONE;
+    if (typeof timezone !== "string" || !isValidTimeZone(timezone)) {
+        throw new AppError("bad_request", "timezone must be an IANA time zone such as Asia/Tokyo");
+    }
+    return timezone;
+}
+
+// ============================================================================
+// Schedule Loading
+// ============================================================================
+
+const CALENDAR_TIMEOUT_MS = 10000;
+const BROADCAST_TIMEOUT_MS = 10000;
+
+// Every show costs a subject page; bgm.tv's host policy paces them, and shows
+// not reached within the budget are listed without episodes
+const DETAIL_CONCURRENCY = 3;
+const DETAIL_BUDGET_MS = 45000;
+
+/**
+ * Subject pages for every calendar entry. Fail-soft: an entry whose page
+ * fails or isn't reached in time keeps its calendar data.
+ */
+async function loadDetails(entries: BangumiCalendarEntry[]): Promise<{ entries: BangumiCalendarEntry[]; complete: boolean }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), DETAIL_BUDGET_MS);
+    let complete = true;
+
+    try {
+        const loaded = await mapWithConcurrency(entries, DETAIL_CONCURRENCY, async (entry) => {
+            if (controller.signal.aborted) {
+                complete = false;
+                return entry;
+            }
+            try {
+                return await loadBangumiCalendarDetail(entry, controller.signal);
+            } catch (e) {
+                if (!controller.signal.aborted) {
+                    console.error(`Bangumi detail failed for ${entry.media.sourceId}:`, e);
+                }
+                complete = false;
+                return entry;
+            }
+        });
+        return { entries: loaded, complete };
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+async function loadScheduleSource(now: number): Promise<ScheduleSource> {
+    // Broadcast times only refine the buckets, so the schedule is served without them
+    const broadcastTimes = withTimeout("bangumi-data", BROADCAST_TIMEOUT_MS, (signal) =>
+        fetchBroadcastTimes(signal, now)
+    ).catch((e) => {
+        console.error("bangumi-data fetch error:", e);
+        return new Map<string, string>();
+    });
+
+    const calendar = await withTimeout("Bangumi calendar", CALENDAR_TIMEOUT_MS, (signal) =>
+        fetchBangumiCalendar(signal)
+    );
+    const [{ entries, complete }, times] = await Promise.all([loadDetails(calendar), broadcastTimes]);
+
+    return {
+        weekStart: new Date(weekStartOf(now)).toISOString(),
+        entries: entries.map((entry) => ({ ...entry, broadcast: times.get(entry.media.sourceId) ?? null })),
+        complete,
+    };
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+const scheduleCache = new ResponseCache();
+
+const WEEK_MS = 7 * 24 * 3600 * 1000;
+
+// Keyed by week and refreshed in the background as episodes air. Entries
+// outlive their week so the next one can start from them (see lookupSchedule).
+const SCHEDULE_CACHE_POLICY: CachePolicy = { ttl: 6 * 3600, staleWhileRevalidate: 14 * 24 * 3600 };
+
+// A schedule with missing episodes goes stale sooner, so it is completed soon
+const PARTIAL_CACHE_POLICY: CachePolicy = { ttl: 600, staleWhileRevalidate: 14 * 24 * 3600 };
+
+function scheduleCacheKey(now: number): string {
+    return `bangumi-schedule:${zonedParts(weekStartOf(now), SOURCE_TIME_ZONE).date}`;
+}
+
+function cachePolicyFor(source: ScheduleSource): CachePolicy {
+    return source.complete ? SCHEDULE_CACHE_POLICY : PARTIAL_CACHE_POLICY;
+}
+
+/**
+ * This week's cached schedule, or last week's as STALE until this week's has
+ * loaded: a cold load scrapes every subject page, which takes most of a minute
+ */
+async function lookupSchedule(now: number): Promise<{ value: ScheduleSource; status: CacheStatus } | null> {
+    const cached = await scheduleCache.lookup<ScheduleSource>(scheduleCacheKey(now));
+    if (cached) return cached;
+
+    const previous = await scheduleCache.lookup<ScheduleSource>(scheduleCacheKey(now - WEEK_MS));
+    return previous ? { value: previous.value, status: "STALE" } : null;
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(withAuth(async (req: Request, { requestId }: AuthContext) => {
+    // Handle CORS preflight
+    if (req.method === "OPTIONS") {
+        return new Response("ok", { headers: corsHeaders });
+    }
+
+    try {
+        // functions.invoke may send no body; every field is optional
+        const text = await req.text();
+        const body: ScheduleRequest = text.trim() ? JSON.parse(text) : {};
+        body.timezone ??= new URL(req.url).searchParams.get("timezone") ?? undefined;
+        const timezone = validateScheduleRequest(body);
+
+        const now = Date.now();
+        const key = scheduleCacheKey(now);
+
+        let cacheStatus: CacheStatus = "MISS";
+        let source: ScheduleSource;
+
+        const cached = await lookupSchedule(now);
+        if (cached) {
+            cacheStatus = cached.status;
+            source = cached.value;
+            if (cached.status === "STALE") {
+                // A partial load still replaces last week's schedule
+                const fallback = cached.value.weekStart !== new Date(weekStartOf(now)).toISOString();
+                scheduleCache.revalidate(key, SCHEDULE_CACHE_POLICY, async () => {
+                    const fresh = await loadScheduleSource(now);
+                    if (fresh.complete) return fresh;
+                    if (fallback) await scheduleCache.store(key, fresh, PARTIAL_CACHE_POLICY);
+                    return undefined;
+                });
+            }
+        } else {
+            source = await loadScheduleSource(now);
+            await scheduleCache.store(key, source, cachePolicyFor(source));
+        }
+
+        const response: ScheduleResponse = {
+            timezone,
+            weekStart: source.weekStart,
+            days: buildSchedule(source, timezone),
+            complete: source.complete,
+        };
+
+        console.log(
+            `Schedule for ${timezone} - ${source.entries.length} shows, ${source.entries.filter((entry) => entry.broadcast).length} with air times${source.complete ? "" : " (partial)"}`
+        );
+
+        return new Response(JSON.stringify(response), {
+            headers: { ...corsHeaders, "Content-Type": "application/json", "X-Cache": cacheStatus },
+            status: 200,
+        });
+    } catch (error) {
+        return errorResponse(error, requestId, corsHeaders);
+    }
+}, { headers: corsHeaders }));
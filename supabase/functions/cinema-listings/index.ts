@@ -0,0 +1,210 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AuthContext, withAuth } from "../_shared/auth.ts";
+import { CachePolicy, CacheStatus, combineCacheStatus, ResponseCache } from "../_shared/cache.ts";
+import { AppError, errorResponse } from "../_shared/errors.ts";
+import { LISTING_SORTS, ListingSort, matchListingOnTmdb, sortListing } from "../_shared/listings.ts";
+import { MediaItem } from "../_shared/media.ts";
+import { describeProviderError, ProviderStatus, withTimeout } from "../_shared/providers/http.ts";
+import {
+    fetchMaoyanListing,
+    MAOYAN_DEFAULT_CITY_ID,
+    maoyanProvider,
+    MaoyanListing,
+} from "../_shared/providers/maoyan.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+        "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+const LISTINGS: MaoyanListing[] = ["showing", "coming"];
+
+interface ListingsRequest {
+    // Maoyan city id (default 1, Beijing)
+    cityId?: number;
+    // Lists to return (default both)
+    lists?: MaoyanListing[];
+    // Maoyan's own order when omitted. "date" is newest first for films
+    // showing and soonest first for upcoming ones.
+    sort?: ListingSort;
+}
+
+interface ProviderReport {
+    status: ProviderStatus;
+    latencyMs: number;
+    count: number;
+    httpStatus?: number;
+    error?: string;
+}
+
+interface ListingResult {
+    items: MediaItem[];
+    // maoyan: films listed; tmdb: films matched on TMDb
+    providers: Record<string, ProviderReport>;
+}
+
+interface ListingsResponse {
+    cityId: number;
+    sort: ListingSort | null;
+    showing?: MediaItem[];
+    coming?: MediaItem[];
+    providers?: Partial<Record<MaoyanListing, Record<string, ProviderReport>>>;
+}
+
+function validateListingsRequest(body: ListingsRequest): { cityId: number; lists: MaoyanListing[]; sort: ListingSort | null } {
+    const cityId = body.cityId ?? MAOYAN_DEFAULT_CITY_ID;
+    if (!Number.isInteger(cityId) || cityId < 1) {
+        throw new AppError("bad_request", "cityId must be a positive integer");
+    }
+
+    let lists = LISTINGS;
+    if (body.lists !== undefined) {
+        if (!Array.isArray(body.lists) || body.lists.length === 0) {
+            throw new AppError("bad_request", `lists must be a non-empty array of: ${LISTINGS.join(", ")}`);
+        }
+        const unknown = body.lists.filter((list) => !LISTINGS.includes(list));
+        if (unknown.length > 0) {
+            throw new AppError("bad_request", `Unknown lists: ${unknown.join(", ")}`);
+        }
+        lists = LISTINGS.filter((list) => body.lists!.includes(list));
+    }
+
+    if (body.sort !== undefined && !LISTING_SORTS.includes(body.sort)) {
+        throw new AppError("bad_request", `sort must be one of: ${LISTING_SORTS.join(", ")}`);
+    }
+
+    return { cityId, lists, sort: body.sort ?? null };
+}
+
+// ============================================================================
+// Listing Loading
+// ============================================================================
+
+// Covers the listing plus its detail-page enrichment
+const MAOYAN_LISTING_TIMEOUT_MS = 15000;
+const TMDB_TIMEOUT_MS = 10000;
+
+async function loadListing(listing: MaoyanListing, cityId: number): Promise<ListingResult> {
+    const startedAt = Date.now();
+
+    let films: MediaItem[];
+    try {
+        films = await withTimeout(maoyanProvider.id, MAOYAN_LISTING_TIMEOUT_MS, (signal) =>
+            fetchMaoyanListing(listing, cityId, signal)
+        );
+    } catch (e) {
+        console.error(`Maoyan ${listing} error:`, e);
+        return {
+            items: [],
+            providers: {
+                maoyan: { ...describeProviderError(e), latencyMs: Date.now() - startedAt, count: 0 },
+            },
+        };
+    }
+
+    const maoyan: ProviderReport = { status: "ok", latencyMs: Date.now() - startedAt, count: films.length };
+
+    const tmdbStartedAt = Date.now();
+    const { items, matched, error } = await matchListingOnTmdb(films, listing, TMDB_TIMEOUT_MS);
+    const latencyMs = Date.now() - tmdbStartedAt;
+    const tmdb: ProviderReport = error
+        ? { ...describeProviderError(error), latencyMs, count: matched }
+        : { status: "ok", latencyMs, count: matched };
+    return { items, providers: { maoyan, tmdb } };
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+const listingCache = new ResponseCache();
+
+// Same freshness as Maoyan search results: showing state and scores move daily
+const LISTING_CACHE_POLICY: CachePolicy = maoyanProvider.cachePolicy;
+
+function listingCacheKey(listing: MaoyanListing, cityId: number): string {
+    return `cinema-listings:${listing}:${cityId}`;
+}
+
+// A list some films couldn't be matched for is kept briefly, so the matches
+// are retried soon without fetching Maoyan on every request
+const PARTIAL_CACHE_POLICY: CachePolicy = { ttl: 600, staleWhileRevalidate: LISTING_CACHE_POLICY.staleWhileRevalidate };
+
+/**
+ * Cache a list Maoyan answered for; one without it is retried next request
+ */
+async function storeListing(key: string, result: ListingResult): Promise<void> {
+    if (result.providers.maoyan?.status !== "ok") return;
+    const policy = result.providers.tmdb?.status === "ok" ? LISTING_CACHE_POLICY : PARTIAL_CACHE_POLICY;
+    await listingCache.store(key, result, policy);
+}
+
+async function cachedListing(listing: MaoyanListing, cityId: number): Promise<{ result: ListingResult; status: CacheStatus }> {
+    const key = listingCacheKey(listing, cityId);
+    const load = () => loadListing(listing, cityId);
+
+    const cached = await listingCache.lookup<ListingResult>(key);
+    if (cached) {
+        if (cached.status === "STALE") {
+            // storeListing picks the policy, so the loader stores the result itself
+            listingCache.revalidate(key, LISTING_CACHE_POLICY, async () => {
+                await storeListing(key, await load());
+                return undefined;
+            });
+        }
+        return { result: cached.value, status: cached.status };
+    }
+
+    const result = await load();
+    await storeListing(key, result);
+    return { result, status: "MISS" };
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(withAuth(async (req: Request, { requestId }: AuthContext) => {
+    // Handle CORS preflight
+    if (req.method === "OPTIONS") {
+        return new Response("ok", { headers: corsHeaders });
+    }
+
+    try {
+        // functions.invoke may send no body; every field is optional
+        const text = await req.text();
+        const body: ListingsRequest = text.trim() ? JSON.parse(text) : {};
+        const { cityId, lists, sort } = validateListingsRequest(body);
+
+        const outcomes = await Promise.all(lists.map((listing) => cachedListing(listing, cityId)));
+
+        const response: ListingsResponse = { cityId, sort };
+        const providers: ListingsResponse["providers"] = {};
+        outcomes.forEach(({ result }, i) => {
+            const listing = lists[i];
+            response[listing] = sortListing(result.items, sort, listing);
+            providers[listing] = result.providers;
+        });
+        response.providers = providers;
+
+        console.log(
+            `Cinema listings for city ${cityId} - ${lists.map((listing, i) => `${listing}: ${outcomes[i].result.items.length} (tmdb ${outcomes[i].result.providers.tmdb?.count ?? 0})`).join(", ")}`
+        );
+
+        return new Response(JSON.stringify(response), {
+            headers: {
+                ...corsHeaders,
+                "Content-Type": "application/json",
+                "X-Cache": combineCacheStatus(outcomes.map(({ status }) => status)),
+            },
+            status: 200,
+        });
+    } catch (error) {
+        return errorResponse(error, requestId, corsHeaders);
+    }
+}, { headers: corsHeaders }));
@@ -0,0 +1,341 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AuthContext, withAuth } from "../_shared/auth.ts";
+import { CachePolicy, ResponseCache } from "../_shared/cache.ts";
+import {
+    CollectedMedia,
+    COLLECTION_STATUSES,
+    CollectionStatus,
+    fetchCollectedMedia,
+    findCollected,
+    saveCollectedMedia,
+} from "../_shared/collections.ts";
+import { mergeItems } from "../_shared/dedup.ts";
+import { AppError, errorResponse } from "../_shared/errors.ts";
+import {
+    IMPORT_FORMATS,
+    IMPORT_SOURCES,
+    ImportFormat,
+    ImportFormatError,
+    ImportRow,
+    ImportSource,
+    matchRow,
+    MatchResult,
+    ParsedImport,
+    parseImport,
+    RowMatch,
+} from "../_shared/imports.ts";
+import { MediaItem } from "../_shared/media.ts";
+import { searchBangumiListing } from "../_shared/providers/bangumi.ts";
+import { mapWithConcurrency, withTimeout } from "../_shared/providers/http.ts";
+import { searchTmdbTitles } from "../_shared/providers/tmdb.ts";
+import { getServiceClient } from "../_shared/supabase.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+        "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+// Exports are sent whole; rows are matched a slice at a time
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+interface ImportRequest {
+    source: ImportSource;
+    // The export file's text: CSV, JSON or a saved list page
+    content: string;
+    // Detected from the content when omitted
+    format?: ImportFormat;
+    // Status for rows the export doesn't give one (Letterboxd watched and
+    // watchlist files, list pages without a selected tab)
+    status?: CollectionStatus;
+    // Slice of rows to match (default the first 50, at most 100)
+    offset?: number;
+    limit?: number;
+    // Default true: only report. false adds matched rows to the collection.
+    dryRun?: boolean;
+    // Default false: titles already in the collection keep their status
+    overwriteStatus?: boolean;
+    // Row index -> "sourceType:sourceId" of the title an ambiguous or
+    // unmatched row should be imported as: one of its candidates, or its own
+    // source
+    resolutions?: Record<string, string>;
+}
+
+interface RowReport {
+    index: number;
+    title: string;
+    year: string;
+    status: CollectionStatus;
+    result: MatchResult;
+    item?: MediaItem;
+    candidates?: MediaItem[];
+    // The row as its own source's title, when it has one and no single match
+    ownSource?: MediaItem;
+    // Set when the search or the save failed; the row can be retried
+    error?: string;
+    // Set when the imported title is already in the collection
+    collected?: { mediaId: string; status: CollectionStatus };
+    // Set on committed rows
+    saved?: boolean;
+}
+
+interface ImportResponse {
+    source: ImportSource;
+    format: ImportFormat;
+    dryRun: boolean;
+    // Importable rows in the export
+    total: number;
+    // Entries that aren't films or shows
+    skipped: number;
+    offset: number;
+    // Offset of the next slice; null after the last one
+    nextOffset: number | null;
+    summary: Record<MatchResult, number> & { collected: number; saved: number };
+    rows: RowReport[];
+}
+
+interface ValidatedImport {
+    source: ImportSource;
+    content: string;
+    format?: ImportFormat;
+    status: CollectionStatus | null;
+    offset: number;
+    limit: number;
+    dryRun: boolean;
+    overwriteStatus: boolean;
+    resolutions: Record<string, string>;
+}
+
+function validateImportRequest(body: ImportRequest): ValidatedImport {
+    if (!IMPORT_SOURCES.includes(body.source)) {
+        throw new AppError("bad_request", `source must be one of: ${IMPORT_SOURCES.join(", ")}`);
+    }
+    if (typeof body.content !== "string" || !body.content.trim()) {
+        throw new AppError("bad_request", "content is required");
+    }
+    if (body.content.length > MAX_CONTENT_LENGTH) {
+        throw new AppError("bad_request", `content is limited to ${MAX_CONTENT_LENGTH} characters`);
+    }
+    if (body.format !== undefined && !IMPORT_FORMATS.includes(body.format)) {
+        throw new AppError("bad_request", `format must be one of: ${IMPORT_FORMATS.join(", ")}`);
+    }
+    if (body.status !== undefined && !COLLECTION_STATUSES.includes(body.status)) {
+        throw new AppError("bad_request", `status must be one of: ${COLLECTION_STATUSES.join(", ")}`);
+    }
+
+    const offset = body.offset ?? 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+        throw new AppError("bad_request", "offset must be a non-negative integer");
+    }
+    const limit = body.limit ?? DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        throw new AppError("bad_request", `limit must be an integer from 1 to ${MAX_LIMIT}`);
+    }
+
+    const resolutions = body.resolutions ?? {};
+    if (typeof resolutions !== "object" || Array.isArray(resolutions) ||
+        Object.values(resolutions).some((value) => typeof value !== "string")) {
+        throw new AppError("bad_request", 'resolutions must map row indexes to "sourceType:sourceId"');
+    }
+
+    return {
+        source: body.source,
+        content: body.content,
+        format: body.format,
+        status: body.status ?? null,
+        offset,
+        limit,
+        dryRun: body.dryRun ?? true,
+        overwriteStatus: body.overwriteStatus ?? false,
+        resolutions,
+    };
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+const ROW_CONCURRENCY = 3;
+const SEARCH_TIMEOUT_MS = 10000;
+
+const searchCache = new ResponseCache();
+
+// Long enough for a dry run to be committed without searching again
+const SEARCH_CACHE_POLICY: CachePolicy = { ttl: 3600, staleWhileRevalidate: 0 };
+
+// Language TMDb titles its hits in, so they can match the export's titles:
+// Letterboxd lists films by their English titles
+const SEARCH_LANGUAGES: Record<ImportSource, string> = {
+    douban: "zh-CN",
+    bangumi: "zh-CN",
+    letterboxd: "en-US",
+};
+
+/**
+ * Search hits for a title, from the list payloads alone: Bangumi for anime,
+ * TMDb for everything else
+ */
+async function searchTitle(provider: "bgm" | "tmdb", query: string, language: string): Promise<MediaItem[]> {
+    const key = `import-collection:${provider}:${language}:${query.trim().toLowerCase()}`;
+    const cached = await searchCache.lookup<MediaItem[]>(key);
+    if (cached) return cached.value;
+
+    const hits = await withTimeout(provider, SEARCH_TIMEOUT_MS, (signal) =>
+        provider === "bgm" ? searchBangumiListing(query, signal) : searchTmdbTitles(query, signal, language)
+    );
+    await searchCache.store(key, hits, SEARCH_CACHE_POLICY);
+    return hits;
+}
+
+/**
+ * Match a row on its title, then on its original title when that finds nothing
+ */
+async function resolveRow(row: ImportRow, source: ImportSource): Promise<RowMatch> {
+    const provider = row.mediaType === "anime" ? "bgm" : "tmdb";
+    const language = SEARCH_LANGUAGES[source];
+
+    let match = matchRow(row, await searchTitle(provider, row.title, language));
+    if (match.result === "unmatched" && row.titleOriginal && row.titleOriginal !== row.title) {
+        match = matchRow(row, await searchTitle(provider, row.titleOriginal, language));
+    }
+    return match;
+}
+
+/**
+ * The item a row is imported as: its match, or the candidate or own source
+ * the caller picked for it
+ */
+function importedItem(report: RowReport, resolutions: Record<string, string>): MediaItem | undefined {
+    if (report.result === "matched") return report.item;
+    const pick = resolutions[String(report.index)];
+    if (!pick) return undefined;
+    const choices = [...(report.candidates ?? []), ...(report.ownSource ? [report.ownSource] : [])];
+    return choices.find((choice) =>
+        (choice.sources ?? [choice]).some((source) => `${source.sourceType}:${source.sourceId}` === pick)
+    );
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(withAuth(async (req: Request, { userId, requestId }: AuthContext) => {
+    // Handle CORS preflight
+    if (req.method === "OPTIONS") {
+        return new Response("ok", { headers: corsHeaders });
+    }
+
+    try {
+        if (!userId) {
+            throw new AppError("unauthorized", "Sign in required");
+        }
+
+        const body: ImportRequest = await req.json();
+        const request = validateImportRequest(body);
+
+        let parsed: ParsedImport;
+        try {
+            parsed = parseImport(request.source, request.content, request.format);
+        } catch (e) {
+            if (e instanceof ImportFormatError) throw new AppError("bad_request", e.message);
+            throw e;
+        }
+        if (!request.status && parsed.rows.some((row) => !row.status)) {
+            throw new AppError(
+                "bad_request",
+                "This export doesn't say whether titles were watched or wished; pass status for its rows"
+            );
+        }
+
+        // A dry run without a database still reports matches, just not
+        // which titles are already collected
+        const client = getServiceClient();
+        if (!request.dryRun && !client) {
+            throw new AppError("config_error", "Collections are not available");
+        }
+        const collection: CollectedMedia[] = client ? await fetchCollectedMedia(client, userId) : [];
+
+        const slice = parsed.rows.slice(request.offset, request.offset + request.limit);
+        const rows = await mapWithConcurrency(slice, ROW_CONCURRENCY, async (row): Promise<RowReport> => {
+            const report: RowReport = {
+                index: row.index,
+                title: row.title,
+                year: row.year,
+                status: row.status ?? request.status!,
+                result: "unmatched",
+            };
+            try {
+                const { result, item, candidates, ownSource } = await resolveRow(row, request.source);
+                report.result = result;
+                if (item) report.item = item;
+                if (candidates.length > 0) report.candidates = candidates;
+                if (ownSource) report.ownSource = ownSource;
+            } catch (e) {
+                console.error(`Import search failed for row ${row.index}:`, e);
+                report.error = e instanceof Error ? e.message : String(e);
+                // A row that links its own source can still be imported as it
+                // when the caller picks it
+                const { ownSource } = matchRow(row, []);
+                if (ownSource) report.ownSource = ownSource;
+            }
+
+            const imported = importedItem(report, request.resolutions);
+            const collected = imported && findCollected(imported, collection);
+            if (collected) report.collected = { mediaId: collected.mediaId, status: collected.status };
+            if (client && !request.dryRun && imported && (!collected || request.overwriteStatus)) {
+                // Saved through the collected title's sources, so a title it
+                // matched by title alone doesn't get a second media row
+                const saved = collected && collected.media.sourceType !== "supabase"
+                    ? mergeItems(collected.media, imported)
+                    : imported;
+                try {
+                    await saveCollectedMedia(client, userId, saved, report.status, {
+                        overwriteStatus: request.overwriteStatus,
+                    });
+                    report.saved = true;
+                } catch (e) {
+                    console.error(`Import save failed for row ${row.index}:`, e);
+                    report.saved = false;
+                    report.error = e instanceof Error ? e.message : "Could not save the title";
+                }
+            }
+            return report;
+        });
+
+        const end = request.offset + slice.length;
+        const response: ImportResponse = {
+            source: request.source,
+            format: parsed.format,
+            dryRun: request.dryRun,
+            total: parsed.rows.length,
+            skipped: parsed.skipped,
+            offset: request.offset,
+            nextOffset: end < parsed.rows.length ? end : null,
+            summary: {
+                matched: rows.filter((row) => row.result === "matched").length,
+                ambiguous: rows.filter((row) => row.result === "ambiguous").length,
+                unmatched: rows.filter((row) => row.result === "unmatched").length,
+                collected: rows.filter((row) => row.collected).length,
+                saved: rows.filter((row) => row.saved).length,
+            },
+            rows,
+        };
+
+        console.log(
+            `Import ${request.source}/${parsed.format} rows ${request.offset}-${end} of ${parsed.rows.length}: ${response.summary.matched} matched, ${response.summary.ambiguous} ambiguous, ${response.summary.unmatched} unmatched, ${response.summary.collected} collected${request.dryRun ? " (dry run)" : `, ${response.summary.saved} saved`}`
+        );
+
+        return new Response(JSON.stringify(response), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 200,
+        });
+    } catch (error) {
+        return errorResponse(error, requestId, corsHeaders);
+    }
+}, { headers: corsHeaders, allowAnonymous: false }));
@@ -0,0 +1,235 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AuthContext, withAuth } from "../_shared/auth.ts";
+import { CachePolicy, CacheStatus, ResponseCache } from "../_shared/cache.ts";
+import { areSameMedia, mergeItems } from "../_shared/dedup.ts";
+import { AppError, errorResponse } from "../_shared/errors.ts";
+import { MediaCredit, MediaItem } from "../_shared/media.ts";
+import { describeProviderError, ProviderStatus, withTimeout } from "../_shared/providers/http.ts";
+import { providerRegistry } from "../_shared/providers/registry.ts";
+import { MediaProvider } from "../_shared/providers/types.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+        "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface DetailRequest {
+    sourceType: string;
+    sourceId: string;
+    // TMDb ids are only unique per media type; defaults to "movie"
+    mediaType?: string;
+}
+
+interface LookupReport {
+    status: ProviderStatus;
+    latencyMs: number;
+    // Id of the matching title on this source, null when nothing matched
+    sourceId: string | null;
+    httpStatus?: number;
+    error?: string;
+}
+
+interface DetailResponse {
+    item: MediaItem;
+    lookups: Record<string, LookupReport>;
+}
+
+function validateDetailRequest(body: DetailRequest): MediaProvider {
+    const { sourceType, sourceId } = body;
+    if (!sourceType || typeof sourceType !== "string") {
+        throw new AppError("bad_request", "sourceType is required");
+    }
+    if (!sourceId || typeof sourceId !== "string") {
+        throw new AppError("bad_request", "sourceId is required");
+    }
+
+    const provider = providerRegistry.get(sourceType);
+    if (!provider) {
+        throw new AppError("bad_request", `Unknown sourceType: ${sourceType}`);
+    }
+    if (!provider.detail) {
+        throw new AppError("bad_request", `${provider.name} has no detail lookup`);
+    }
+    return provider;
+}
+
+// ============================================================================
+// Cross-Source Lookup
+// ============================================================================
+
+/**
+ * Find the same title on another source: search its listing by title (no
+ * per-hit page loads), pick the first hit that areSameMedia accepts, then
+ * upgrade that one hit to the source's full detail. A failed detail fetch
+ * falls back to the search hit.
+ */
+async function lookupOnProvider(
+    provider: MediaProvider,
+    primary: MediaItem
+): Promise<{ match: MediaItem | null; report: LookupReport }> {
+    const startedAt = Date.now();
+
+    try {
+        const match = await withTimeout(provider.id, provider.timeoutMs, async (signal) => {
+            const queries = [primary.titleZh, primary.titleOriginal].filter(
+                (query, i, all) => query && all.indexOf(query) === i
+            );
+
+            for (const query of queries) {
+                const items = provider.searchListing
+                    ? await provider.searchListing(query, { signal })
+                    : (await provider.search(query, { signal })).items;
+                const hit = items.find((item) => areSameMedia(primary, item));
+                if (!hit) continue;
+
+                if (!provider.detail) return hit;
+                try {
+                    return (await provider.detail(hit.sourceId, { signal, mediaType: hit.mediaType })) ?? hit;
+                } catch (e) {
+                    console.error(`${provider.name} detail failed for ${hit.sourceId}:`, e);
+                    return hit;
+                }
+            }
+            return null;
+        });
+
+        return {
+            match,
+            report: {
+                status: "ok",
+                latencyMs: Date.now() - startedAt,
+                sourceId: match?.sourceId ?? null,
+            },
+        };
+    } catch (e) {
+        console.error(`${provider.name} lookup error:`, e);
+        return {
+            match: null,
+            report: {
+                ...describeProviderError(e),
+                latencyMs: Date.now() - startedAt,
+                sourceId: null,
+            },
+        };
+    }
+}
+
+/**
+ * Fold a matched item into the primary one. mergeItems covers ratings, ids
+ * and placeholders; full credits are only known to detail lookups.
+ */
+function mergeDetail(primary: MediaItem, match: MediaItem): MediaItem {
+    const merged = mergeItems(primary, match);
+
+    merged.cast = pickCredits(primary.cast, match.cast);
+    merged.crew = pickCredits(primary.crew, match.crew);
+
+    return merged;
+}
+
+function pickCredits(primary?: MediaCredit[], secondary?: MediaCredit[]): MediaCredit[] {
+    return primary && primary.length > 0 ? primary : secondary ?? [];
+}
+
+async function loadDetail(
+    provider: MediaProvider,
+    { sourceId, mediaType }: DetailRequest
+): Promise<DetailResponse | null> {
+    const primary = await withTimeout(provider.id, provider.timeoutMs, (signal) =>
+        provider.detail!(sourceId, { signal, mediaType })
+    );
+    if (!primary) return null;
+
+    const others = providerRegistry.list().filter((other) => other.id !== provider.id);
+    const outcomes = await Promise.all(others.map((other) => lookupOnProvider(other, primary)));
+
+    let item: MediaItem = {
+        ...primary,
+        cast: primary.cast ?? [],
+        crew: primary.crew ?? [],
+    };
+    const lookups: Record<string, LookupReport> = {};
+
+    outcomes.forEach(({ match, report }, i) => {
+        lookups[others[i].id] = report;
+        if (match) item = mergeDetail(item, match);
+    });
+
+    return { item, lookups };
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+const detailCache = new ResponseCache();
+
+const DETAIL_CACHE_POLICY: CachePolicy = { ttl: 6 * 3600, staleWhileRevalidate: 24 * 3600 };
+
+function detailCacheKey({ sourceType, sourceId, mediaType }: DetailRequest): string {
+    return `media-detail:${sourceType}:${mediaType || "-"}:${sourceId}`;
+}
+
+// Only cache responses where every lookup answered, so transient failures are retried
+function isCacheable(response: DetailResponse): boolean {
+    return Object.values(response.lookups).every((report) => report.status === "ok");
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(withAuth(async (req: Request, { requestId }: AuthContext) => {
+    // Handle CORS preflight
+    if (req.method === "OPTIONS") {
+        return new Response("ok", { headers: corsHeaders });
+    }
+
+    try {
+        const body: DetailRequest = await req.json();
+        const provider = validateDetailRequest(body);
+        const key = detailCacheKey(body);
+
+        console.log(`Fetching detail for ${body.sourceType}:${body.sourceId}`);
+
+        let cacheStatus: CacheStatus = "MISS";
+        let response: DetailResponse | null;
+
+        const cached = await detailCache.lookup<DetailResponse>(key);
+        if (cached) {
+            cacheStatus = cached.status;
+            response = cached.value;
+            if (cached.status === "STALE") {
+                detailCache.revalidate(key, DETAIL_CACHE_POLICY, async () => {
+                    const fresh = await loadDetail(provider, body);
+                    return fresh && isCacheable(fresh) ? fresh : undefined;
+                });
+            }
+        } else {
+            response = await loadDetail(provider, body);
+            if (response && isCacheable(response)) {
+                await detailCache.store(key, response, DETAIL_CACHE_POLICY);
+            }
+        }
+
+        if (!response) {
+            throw new AppError("not_found", "Media not found");
+        }
+
+        console.log(
+            `Detail lookups - ${Object.entries(response.lookups).map(([name, report]) => `${name}: ${report.status} ${report.sourceId ?? "-"} (${report.latencyMs}ms)`).join(", ")}`
+        );
+
+        return new Response(JSON.stringify(response), {
+            headers: { ...corsHeaders, "Content-Type": "application/json", "X-Cache": cacheStatus },
+            status: 200,
+        });
+    } catch (error) {
+        return errorResponse(error, requestId, corsHeaders);
+    }
+}, { headers: corsHeaders }));
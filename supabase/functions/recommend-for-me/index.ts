@@ -0,0 +1,310 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AuthContext, withAuth } from "../_shared/auth.ts";
+import { CachePolicy, ResponseCache } from "../_shared/cache.ts";
+import { CollectedMedia, fetchCollectedMedia } from "../_shared/collections.ts";
+import { AppError, errorResponse } from "../_shared/errors.ts";
+import { MediaItem } from "../_shared/media.ts";
+import { fetchBangumiRelated } from "../_shared/providers/bangumi.ts";
+import { mapWithConcurrency } from "../_shared/providers/http.ts";
+import { providerRegistry } from "../_shared/providers/registry.ts";
+import { fetchTmdbRecommendations } from "../_shared/providers/tmdb.ts";
+import {
+    buildTasteProfile,
+    collectCandidates,
+    rankRecommendations,
+    Recommendation,
+    scoreCandidate,
+    Seed,
+    SEED_WEIGHTS,
+    TasteProfile,
+} from "../_shared/recommend.ts";
+import { getServiceClient } from "../_shared/supabase.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+        "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+// Names per profile field returned with the picks
+const PROFILE_TOP = 5;
+
+interface RecommendRequest {
+    // Picks to return (default 20, at most 50)
+    limit?: number;
+}
+
+interface RecommendResponse {
+    items: Recommendation[];
+    // What the picks were scored against, strongest first
+    profile: {
+        genres: string[];
+        directors: string[];
+        actors: string[];
+    };
+    // Collected titles the picks were drawn from
+    seedCount: number;
+    // False when some seeds or picks couldn't be loaded in time
+    complete: boolean;
+}
+
+function validateRecommendRequest(body: RecommendRequest): number {
+    const limit = body.limit ?? DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        throw new AppError("bad_request", `limit must be an integer from 1 to ${MAX_LIMIT}`);
+    }
+    return limit;
+}
+
+// ============================================================================
+// Seeds
+// ============================================================================
+
+// Most recently collected titles first; each costs one request when not cached
+const MAX_SEEDS = 12;
+const SEED_CONCURRENCY = 3;
+const SEED_BUDGET_MS = 15000;
+
+interface SeedSource {
+    sourceType: "tmdb" | "bgm";
+    sourceId: string;
+    // TMDb ids are only unique per media type
+    mediaType?: "movie" | "tv";
+}
+
+interface SeedPage {
+    subject: MediaItem | null;
+    candidates: MediaItem[];
+}
+
+/**
+ * Where to look a collected title up: Bangumi for anime it knows, TMDb
+ * otherwise; null when it's on neither
+ */
+function seedSource({ media }: CollectedMedia): SeedSource | null {
+    const bgm = media.externalIds?.bgm;
+    const tmdb = media.externalIds?.tmdb;
+    if (bgm && (media.mediaType === "anime" || !tmdb)) {
+        return { sourceType: "bgm", sourceId: bgm };
+    }
+    if (tmdb) {
+        // The app stores TMDb's own URL, which has the media type
+        const tmdbUrl = media.sources?.find((source) => source.sourceType === "tmdb")?.sourceUrl || "";
+        const mediaType = tmdbUrl.match(/themoviedb\.org\/(movie|tv)\//)?.[1] ?? (media.mediaType === "movie" ? "movie" : "tv");
+        return { sourceType: "tmdb", sourceId: tmdb, mediaType: mediaType as "movie" | "tv" };
+    }
+    return null;
+}
+
+async function fetchSeedPage(source: SeedSource, signal: AbortSignal): Promise<SeedPage> {
+    if (source.sourceType === "bgm") {
+        const { subject, related } = await fetchBangumiRelated(source.sourceId, signal);
+        return { subject, candidates: related };
+    }
+    const { subject, recommendations } = await fetchTmdbRecommendations(source.sourceId, source.mediaType!, signal);
+    return { subject, candidates: recommendations };
+}
+
+const seedCache = new ResponseCache();
+
+// What a title is recommended with changes slowly, and is the same for every user
+const SEED_CACHE_POLICY: CachePolicy = { ttl: 24 * 3600, staleWhileRevalidate: 72 * 3600 };
+
+function seedCacheKey(source: SeedSource): string {
+    const id = source.mediaType ? `${source.mediaType}/${source.sourceId}` : source.sourceId;
+    return `recommend-for-me:seed:${source.sourceType}:${id}`;
+}
+
+async function cachedSeedPage(source: SeedSource, signal: AbortSignal): Promise<SeedPage> {
+    const key = seedCacheKey(source);
+
+    const cached = await seedCache.lookup<SeedPage>(key);
+    if (cached) {
+        if (cached.status === "STALE") {
+            seedCache.revalidate(key, SEED_CACHE_POLICY, () => fetchSeedPage(source, AbortSignal.timeout(SEED_BUDGET_MS)));
+        }
+        return cached.value;
+    }
+
+    const page = await fetchSeedPage(source, signal);
+    await seedCache.store(key, page, SEED_CACHE_POLICY);
+    return page;
+}
+
+/**
+ * Load what the watched and wished titles recommend. Fail-soft: a seed that
+ * fails or isn't reached within the budget is left out.
+ */
+async function loadSeeds(collected: CollectedMedia[]): Promise<{ seeds: Seed[]; complete: boolean }> {
+    const picked = collected
+        .filter((item) => SEED_WEIGHTS[item.status] && seedSource(item))
+        .slice(0, MAX_SEEDS);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), SEED_BUDGET_MS);
+    let complete = true;
+
+    try {
+        const loaded = await mapWithConcurrency(picked, SEED_CONCURRENCY, async (item): Promise<Seed | null> => {
+            if (controller.signal.aborted) {
+                complete = false;
+                return null;
+            }
+            try {
+                const { subject, candidates } = await cachedSeedPage(seedSource(item)!, controller.signal);
+                return { collected: item, weight: SEED_WEIGHTS[item.status]!, subject, candidates };
+            } catch (e) {
+                if (!controller.signal.aborted) {
+                    console.error(`Recommendations failed for ${item.mediaId}:`, e);
+                }
+                complete = false;
+                return null;
+            }
+        });
+        return { seeds: loaded.filter((seed): seed is Seed => seed !== null), complete };
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+// ============================================================================
+// Candidate Details
+// ============================================================================
+
+// Candidates beyond the limit that are also filled in, since details can
+// reorder them
+const SHORTLIST_EXTRA = 10;
+const DETAIL_CONCURRENCY = 4;
+const DETAIL_BUDGET_MS = 10000;
+
+/**
+ * Candidates only have what their list had; genres and credits come from
+ * their detail pages, which the profile is matched against
+ */
+function applyDetail(item: MediaItem, detail: MediaItem): MediaItem {
+    return {
+        ...item,
+        genres: detail.genres.length ? detail.genres : item.genres,
+        directors: detail.directors.length ? detail.directors : item.directors,
+        actors: detail.actors.length ? detail.actors : item.actors,
+        summary: item.summary === "暂无简介" ? detail.summary : item.summary,
+        duration: item.duration === "未知" ? detail.duration : item.duration,
+        year: item.year === "----" ? detail.year : item.year,
+        releaseDate: item.year === "----" ? detail.releaseDate : item.releaseDate,
+        rating: item.rating || detail.rating,
+    };
+}
+
+/**
+ * Fill the shortlist in from detail pages. Fail-soft like the seeds.
+ */
+async function loadDetails(
+    shortlist: { item: MediaItem; seeds: Seed[] }[]
+): Promise<{ candidates: { item: MediaItem; seeds: Seed[] }[]; complete: boolean }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), DETAIL_BUDGET_MS);
+    let complete = true;
+
+    try {
+        const candidates = await mapWithConcurrency(shortlist, DETAIL_CONCURRENCY, async (candidate) => {
+            const { item } = candidate;
+            const provider = providerRegistry.get(item.sourceType);
+            if (!provider?.detail) return candidate;
+            if (controller.signal.aborted) {
+                complete = false;
+                return candidate;
+            }
+            try {
+                const detail = await provider.detail(item.sourceId, { signal: controller.signal, mediaType: item.mediaType });
+                return detail ? { ...candidate, item: applyDetail(item, detail) } : candidate;
+            } catch (e) {
+                if (!controller.signal.aborted) {
+                    console.error(`Detail failed for ${item.sourceType}:${item.sourceId}:`, e);
+                }
+                complete = false;
+                return candidate;
+            }
+        });
+        return { candidates, complete };
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+function topNames(counts: Map<string, number>): string[] {
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, PROFILE_TOP)
+        .map(([name]) => name);
+}
+
+async function recommendFor(collected: CollectedMedia[], limit: number): Promise<RecommendResponse> {
+    const { seeds, complete: seedsComplete } = await loadSeeds(collected);
+    const profile: TasteProfile = buildTasteProfile(seeds);
+
+    const shortlist = collectCandidates(seeds, collected)
+        .map((candidate) => ({ candidate, score: scoreCandidate(candidate.item, candidate.seeds, profile) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit + SHORTLIST_EXTRA)
+        .map(({ candidate }) => candidate);
+    const { candidates, complete: detailsComplete } = await loadDetails(shortlist);
+
+    return {
+        items: rankRecommendations(candidates, profile).slice(0, limit),
+        profile: {
+            genres: topNames(profile.genres),
+            directors: topNames(profile.directors),
+            actors: topNames(profile.actors),
+        },
+        seedCount: seeds.length,
+        complete: seedsComplete && detailsComplete,
+    };
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(withAuth(async (req: Request, { userId, requestId }: AuthContext) => {
+    // Handle CORS preflight
+    if (req.method === "OPTIONS") {
+        return new Response("ok", { headers: corsHeaders });
+    }
+
+    try {
+        if (!userId) {
+            throw new AppError("unauthorized", "Sign in required");
+        }
+
+        // functions.invoke may send no body; every field is optional
+        const text = await req.text();
+        const body: RecommendRequest = text.trim() ? JSON.parse(text) : {};
+        const limit = validateRecommendRequest(body);
+
+        const client = getServiceClient();
+        if (!client) {
+            throw new AppError("config_error", "Collections are not available");
+        }
+
+        const collected = await fetchCollectedMedia(client, userId);
+        const response = await recommendFor(collected, limit);
+
+        console.log(
+            `Recommendations for ${userId} - ${response.items.length} picks from ${response.seedCount} of ${collected.length} collected titles${response.complete ? "" : " (partial)"}`
+        );
+
+        return new Response(JSON.stringify(response), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 200,
+        });
+    } catch (error) {
+        return errorResponse(error, requestId, corsHeaders);
+    }
+}, { headers: corsHeaders, allowAnonymous: false }));
@@ -0,0 +1,245 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AuthContext, withAuth } from "../_shared/auth.ts";
+import { CachePolicy, CacheStatus, ResponseCache } from "../_shared/cache.ts";
+import { deduplicateResults, normalizeTitle } from "../_shared/dedup.ts";
+import { AppError, errorResponse } from "../_shared/errors.ts";
+import { MediaItem } from "../_shared/media.ts";
+import { deduplicatePeople, Person } from "../_shared/people.ts";
+import { describeProviderError, ProviderStatus, withTimeout } from "../_shared/providers/http.ts";
+import { providerRegistry } from "../_shared/providers/registry.ts";
+import { MediaProvider } from "../_shared/providers/types.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+        "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface PeopleRequest {
+    // Person name in any script (宫崎骏, 宮崎駿, Hayao Miyazaki)
+    query: string;
+    // Allow-list of provider ids; defaults to every provider with person search
+    providers?: string[];
+    // Load filmographies for the top matches (default true)
+    filmography?: boolean;
+    // Maximum number of people returned (default 10)
+    limit?: number;
+}
+
+interface ProviderReport {
+    status: ProviderStatus;
+    latencyMs: number;
+    count: number;
+    httpStatus?: number;
+    error?: string;
+}
+
+interface PeopleResponse {
+    people: Person[];
+    providers: Record<string, ProviderReport>;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 20;
+
+// Filmographies cost one or two requests per source, so only the best matches get one
+const FILMOGRAPHY_PEOPLE = 3;
+
+function validatePeopleRequest(body: PeopleRequest): { providers: MediaProvider[]; limit: number } {
+    if (!body.query || typeof body.query !== "string" || !body.query.trim()) {
+        throw new AppError("bad_request", "Query is required");
+    }
+
+    const limit = body.limit ?? DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        throw new AppError("bad_request", `limit must be an integer from 1 to ${MAX_LIMIT}`);
+    }
+
+    let providers = providerRegistry.list().filter((provider) => provider.searchPeople);
+    if (body.providers !== undefined) {
+        if (!Array.isArray(body.providers)) {
+            throw new AppError("bad_request", "providers must be an array of provider ids");
+        }
+        const unknown = body.providers.filter((id) => !providerRegistry.get(id));
+        if (unknown.length > 0) {
+            throw new AppError("bad_request", `Unknown providers: ${unknown.join(", ")}`);
+        }
+        providers = providers.filter((provider) => body.providers!.includes(provider.id));
+    }
+    if (providers.length === 0) {
+        throw new AppError("bad_request", "None of the requested providers support person search");
+    }
+
+    return { providers, limit };
+}
+
+// ============================================================================
+// Person Search
+// ============================================================================
+
+async function searchProvider(
+    provider: MediaProvider,
+    query: string
+): Promise<{ people: Person[]; report: ProviderReport }> {
+    const startedAt = Date.now();
+
+    try {
+        const people = await withTimeout(provider.id, provider.timeoutMs, (signal) =>
+            provider.searchPeople!(query, { signal })
+        );
+        return {
+            people,
+            report: { status: "ok", latencyMs: Date.now() - startedAt, count: people.length },
+        };
+    } catch (e) {
+        console.error(`${provider.name} person search error:`, e);
+        return {
+            people: [],
+            report: { ...describeProviderError(e), latencyMs: Date.now() - startedAt, count: 0 },
+        };
+    }
+}
+
+/**
+ * Exact name matches first, then partial ones; people found on more
+ * sources rank higher within each group
+ */
+function rankPeople(people: Person[], query: string): Person[] {
+    const target = normalizeTitle(query);
+    const nameScore = (person: Person) => {
+        const names = [person.name, person.nameOriginal, ...person.aliases].map((name) => normalizeTitle(name));
+        if (names.includes(target)) return 2;
+        return names.some((name) => name.includes(target) || (name && target.includes(name))) ? 1 : 0;
+    };
+
+    return people
+        .map((person, index) => ({ person, index, score: nameScore(person) }))
+        .sort((a, b) =>
+            b.score - a.score ||
+            b.person.sources.length - a.person.sources.length ||
+            a.index - b.index
+        )
+        .map(({ person }) => person);
+}
+
+/**
+ * Works from every source the person was found on, merged like search
+ * results. A source that fails only loses its own credits.
+ */
+async function loadFilmography(person: Person): Promise<MediaItem[]> {
+    const lists = await Promise.all(person.sources.map(async ({ sourceType, sourceId }) => {
+        const provider = providerRegistry.get(sourceType);
+        if (!provider?.personWorks) return [];
+        try {
+            return await withTimeout(provider.id, provider.timeoutMs, (signal) =>
+                provider.personWorks!(sourceId, { signal })
+            );
+        } catch (e) {
+            console.error(`${provider.name} works fetch error for ${sourceId}:`, e);
+            return [];
+        }
+    }));
+
+    return deduplicateResults(lists.flat());
+}
+
+async function loadPeople(
+    query: string,
+    providers: MediaProvider[],
+    { limit, filmography }: { limit: number; filmography: boolean }
+): Promise<PeopleResponse> {
+    const outcomes = await Promise.all(providers.map((provider) => searchProvider(provider, query)));
+
+    const reports: Record<string, ProviderReport> = {};
+    outcomes.forEach(({ report }, i) => {
+        reports[providers[i].id] = report;
+    });
+
+    const people = rankPeople(deduplicatePeople(outcomes.flatMap(({ people }) => people)), query)
+        .slice(0, limit);
+
+    if (filmography) {
+        const top = people.slice(0, FILMOGRAPHY_PEOPLE);
+        const works = await Promise.all(top.map(loadFilmography));
+        top.forEach((person, i) => {
+            person.filmography = works[i];
+        });
+    }
+
+    return { people, providers: reports };
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+const peopleCache = new ResponseCache();
+
+const PEOPLE_CACHE_POLICY: CachePolicy = { ttl: 12 * 3600, staleWhileRevalidate: 48 * 3600 };
+
+function peopleCacheKey(query: string, providers: MediaProvider[], limit: number, filmography: boolean): string {
+    const ids = providers.map((provider) => provider.id).join(",");
+    return `search-people:${ids}:${limit}:${filmography ? "works" : "-"}:${normalizeTitle(query)}`;
+}
+
+// Only cache responses where every provider answered, so transient failures are retried
+function isCacheable(response: PeopleResponse): boolean {
+    return Object.values(response.providers).every((report) => report.status === "ok");
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(withAuth(async (req: Request, { requestId }: AuthContext) => {
+    // Handle CORS preflight
+    if (req.method === "OPTIONS") {
+        return new Response("ok", { headers: corsHeaders });
+    }
+
+    try {
+        const body: PeopleRequest = await req.json();
+        const { providers, limit } = validatePeopleRequest(body);
+        const query = body.query.trim();
+        const filmography = body.filmography !== false;
+        const key = peopleCacheKey(query, providers, limit, filmography);
+        const load = () => loadPeople(query, providers, { limit, filmography });
+
+        console.log(`Searching people for: ${query}`);
+
+        let cacheStatus: CacheStatus = "MISS";
+        let response: PeopleResponse;
+
+        const cached = await peopleCache.lookup<PeopleResponse>(key);
+        if (cached) {
+            cacheStatus = cached.status;
+            response = cached.value;
+            if (cached.status === "STALE") {
+                peopleCache.revalidate(key, PEOPLE_CACHE_POLICY, async () => {
+                    const fresh = await load();
+                    return isCacheable(fresh) ? fresh : undefined;
+                });
+            }
+        } else {
+            response = await load();
+            if (isCacheable(response)) {
+                await peopleCache.store(key, response, PEOPLE_CACHE_POLICY);
+            }
+        }
+
+        console.log(
+            `People results - ${Object.entries(response.providers).map(([name, report]) => `${name}: ${report.status} ${report.count} (${report.latencyMs}ms)`).join(", ")}, merged: ${response.people.length}`
+        );
+
+        return new Response(JSON.stringify(response), {
+            headers: { ...corsHeaders, "Content-Type": "application/json", "X-Cache": cacheStatus },
+            status: 200,
+        });
+    } catch (error) {
+        return errorResponse(error, requestId, corsHeaders);
+    }
+}, { headers: corsHeaders }));
@@ -0,0 +1,113 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { AuthContext, clientIp, withAuth } from "../_shared/auth.ts";
+import { MemoryRateLimitStore } from "../_shared/ratelimit.ts";
+
+// Unsigned tokens: only the payload is read before verifyToken is called
+function fakeJwt(claims: Record<string, unknown>): string {
+    const encode = (value: unknown) => btoa(JSON.stringify(value)).replace(/=+$/, "");
+    return `${encode({ alg: "HS256" })}.${encode(claims)}.signature`;
+}
+
+const ANON_KEY = fakeJwt({ role: "anon" });
+const USER_TOKEN = fakeJwt({ role: "authenticated", sub: "user-1" });
+
+function request(token?: string, ip = "203.0.113.7", method = "POST"): Request {
+    const headers: Record<string, string> = {
+        // The caller's own X-Forwarded-For, then the address the gateway appends
+        "x-forwarded-for": `198.18.0.1, ${ip}`,
+        "x-request-id": "test-request-1",
+    };
+    if (token) headers.authorization = `Bearer ${token}`;
+    return new Request("http://localhost/", { method, headers });
+}
+
+function setup(options: { allowAnonymous?: boolean; now?: () => number } = {}) {
+    const seen: AuthContext[] = [];
+    const handler = withAuth((_req, auth) => {
+        seen.push(auth);
+        return new Response("ok");
+    }, {
+        allowAnonymous: options.allowAnonymous ?? true,
+        userLimit: { capacity: 3, refillPerSecond: 1 },
+        anonymousLimit: { capacity: 1, refillPerSecond: 0.1 },
+        ipLimit: { capacity: 100, refillPerSecond: 10 },
+        store: new MemoryRateLimitStore(100, options.now),
+        verifyToken: (token) => Promise.resolve(token === USER_TOKEN ? "user-1" : null),
+    });
+    return { handler, seen };
+}
+
+Deno.test("verified users are identified and get the user quota", async () => {
+    const { handler, seen } = setup();
+
+    for (let i = 0; i < 3; i++) {
+        assertEquals((await handler(request(USER_TOKEN))).status, 200);
+    }
+    assertEquals(seen[0], {
+        userId: "user-1",
+        anonymous: false,
+        ip: "203.0.113.7",
+        requestId: "test-request-1",
+    });
+
+    const throttled = await handler(request(USER_TOKEN));
+    assertEquals(throttled.status, 429);
+    assertEquals(throttled.headers.get("Retry-After"), "1");
+    assertEquals(throttled.headers.get("X-Request-Id"), "test-request-1");
+    assertEquals((await throttled.json()).code, "rate_limited");
+});
+
+Deno.test("anonymous callers get the stricter per-IP quota", async () => {
+    const { handler, seen } = setup();
+
+    assertEquals((await handler(request(ANON_KEY))).status, 200);
+    assertEquals(seen[0].anonymous, true);
+
+    const throttled = await handler(request());
+    assertEquals(throttled.status, 429);
+    assertEquals(throttled.headers.get("Retry-After"), "10");
+
+    // Another address has its own bucket
+    assertEquals((await handler(request(ANON_KEY, "198.51.100.1"))).status, 200);
+});
+
+Deno.test("buckets refill over time", async () => {
+    let now = 0;
+    const { handler } = setup({ now: () => now });
+
+    assertEquals((await handler(request())).status, 200);
+    assertEquals((await handler(request())).status, 429);
+    now += 10_000;
+    assertEquals((await handler(request())).status, 200);
+});
+
+Deno.test("invalid sessions and disallowed anonymous calls are rejected", async () => {
+    const { handler } = setup({ allowAnonymous: false });
+
+    assertEquals((await handler(request(fakeJwt({ role: "authenticated", sub: "x" })))).status, 401);
+    assertEquals((await handler(request("not-a-jwt"))).status, 401);
+    assertEquals((await handler(request(ANON_KEY))).status, 401);
+    assertEquals((await handler(request(USER_TOKEN))).status, 200);
+});
+
+Deno.test("CORS preflights skip authentication", async () => {
+    const { handler } = setup({ allowAnonymous: false });
+
+    assertEquals((await handler(request(undefined, "203.0.113.7", "OPTIONS"))).status, 200);
+});
+
+Deno.test("a spoofed X-Forwarded-For doesn't buy a fresh IP bucket", async () => {
+    const { handler, seen } = setup();
+    const spoofed = (first: string, extra: Record<string, string> = {}) =>
+        new Request("http://localhost/", {
+            method: "POST",
+            headers: { "x-forwarded-for": `${first}, 203.0.113.7`, ...extra },
+        });
+
+    assertEquals((await handler(spoofed("1.1.1.1"))).status, 200);
+    assertEquals((await handler(spoofed("2.2.2.2"))).status, 429);
+    assertEquals(seen[0].ip, "203.0.113.7");
+
+    // Behind Cloudflare its header names the caller
+    assertEquals(clientIp(spoofed("3.3.3.3", { "cf-connecting-ip": "198.51.100.9" })), "198.51.100.9");
+});
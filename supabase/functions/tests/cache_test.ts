@@ -0,0 +1,64 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { combineCacheStatus, MemoryCacheStore, ResponseCache } from "../_shared/cache.ts";
+
+function entry(value: string, freshFor: number, staleFor = 0) {
+    const now = Date.now();
+    return { value, storedAt: now, freshUntil: now + freshFor, staleUntil: now + freshFor + staleFor };
+}
+
+Deno.test("fresh entries are a HIT, expired servable ones STALE, the rest a MISS", async () => {
+    const cache = new ResponseCache(new MemoryCacheStore());
+    await cache.store("fresh", "a", { ttl: 60, staleWhileRevalidate: 60 });
+    await cache.store("stale", "b", { ttl: 0, staleWhileRevalidate: 60 });
+    await cache.store("gone", "c", { ttl: 0, staleWhileRevalidate: 0 });
+
+    assertEquals(await cache.lookup("fresh"), { value: "a", status: "HIT" });
+    assertEquals(await cache.lookup("stale"), { value: "b", status: "STALE" });
+    assertEquals(await cache.lookup("gone"), null);
+    assertEquals(await cache.lookup("never-stored"), null);
+});
+
+Deno.test("revalidation refreshes a stale entry once, and keeps it when the loader gives up", async () => {
+    const cache = new ResponseCache(new MemoryCacheStore());
+    const policy = { ttl: 60, staleWhileRevalidate: 60 };
+    await cache.store("key", "old", { ttl: 0, staleWhileRevalidate: 60 });
+
+    let calls = 0;
+    let finish: (value: string | undefined) => void = () => {};
+    const loader = () => {
+        calls++;
+        return new Promise<string | undefined>((resolve) => (finish = resolve));
+    };
+    cache.revalidate("key", policy, loader);
+    cache.revalidate("key", policy, loader);
+    assertEquals(calls, 1);
+
+    finish("new");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    assertEquals(await cache.lookup("key"), { value: "new", status: "HIT" });
+
+    await cache.store("other", "kept", { ttl: 0, staleWhileRevalidate: 60 });
+    cache.revalidate("other", policy, () => Promise.resolve(undefined));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    assertEquals(await cache.lookup("other"), { value: "kept", status: "STALE" });
+});
+
+Deno.test("the memory store evicts the least recently used entry", async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set("a", entry("a", 60_000));
+    await store.set("b", entry("b", 60_000));
+    // Reading "a" makes "b" the least recently used
+    await store.get("a");
+    await store.set("c", entry("c", 60_000));
+
+    assertEquals((await store.get("a"))?.value, "a");
+    assertEquals(await store.get("b"), null);
+    assertEquals((await store.get("c"))?.value, "c");
+});
+
+Deno.test("combined cache status is the worst of its parts", () => {
+    assertEquals(combineCacheStatus(["HIT", "HIT"]), "HIT");
+    assertEquals(combineCacheStatus(["HIT", "STALE"]), "STALE");
+    assertEquals(combineCacheStatus(["STALE", "MISS"]), "MISS");
+    assertEquals(combineCacheStatus([]), "MISS");
+});
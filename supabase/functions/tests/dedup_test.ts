@@ -0,0 +1,47 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { areSameMedia, compareExternalIds, deduplicateResults } from "../_shared/dedup.ts";
+import { media } from "./factories.ts";
+
+Deno.test("a shared id matches titles that read differently", () => {
+    const tmdb = media("tmdb", "129", { titleZh: "千与千寻", year: "2001", externalIds: { imdb: "tt0245429" } });
+    const douban = media("douban", "1291561", { titleZh: "千与千寻的神隐", year: "2002", externalIds: { imdb: "tt0245429" } });
+    assertEquals(compareExternalIds(tmdb, douban), true);
+    assertEquals(compareExternalIds(tmdb, media("bgm", "1", { titleZh: "千与千寻" })), null);
+});
+
+Deno.test("a conflicting id on the same source outweighs a shared series IMDb id", () => {
+    const season1 = media("douban", "3016187", {
+        titleZh: "权力的游戏 第一季",
+        year: "2011",
+        mediaType: "tv",
+        externalIds: { imdb: "tt0944947" },
+    });
+    const season2 = media("douban", "3016186", {
+        titleZh: "权力的游戏 第二季",
+        year: "2012",
+        mediaType: "tv",
+        externalIds: { imdb: "tt0944947" },
+    });
+    assertEquals(compareExternalIds(season1, season2), false);
+    assertEquals(areSameMedia(season1, season2), false);
+    assertEquals(deduplicateResults([season1, season2]).length, 2);
+});
+
+Deno.test("TMDb movie and show ids with the same number are different titles", () => {
+    const movie = media("tmdb", "1399", { titleZh: "权力的游戏", year: "2011" });
+    const show = media("tmdb", "1399", { titleZh: "权力的游戏", year: "2011", mediaType: "tv" });
+    assertEquals(compareExternalIds(movie, show), false);
+    assertEquals(areSameMedia(movie, show), false);
+
+    // The kind of a merged item's TMDb id comes from its TMDb link
+    const merged = media("bgm", "100", { titleZh: "权力的游戏", year: "2011", mediaType: "anime" });
+    merged.externalIds = { ...merged.externalIds, tmdb: "1399" };
+    merged.sources = [...merged.sources!, {
+        sourceType: "tmdb",
+        sourceId: "1399",
+        sourceUrl: "https://www.themoviedb.org/tv/1399",
+        rating: 0,
+    }];
+    assertEquals(compareExternalIds(merged, show), true);
+    assertEquals(compareExternalIds(merged, movie), false);
+});
@@ -0,0 +1,24 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { AppError, ERROR_STATUS, errorResponse, toAppError } from "../_shared/errors.ts";
+import { ProviderError } from "../_shared/providers/http.ts";
+
+Deno.test("upstream failures are bad gateways and only timeouts are gateway timeouts", () => {
+    const status = (e: unknown) => ERROR_STATUS[toAppError(e).code];
+    assertEquals(status(new ProviderError("http_error", "TMDb search failed: 503", 503)), 502);
+    assertEquals(status(new ProviderError("parse_error", "TMDb returned invalid JSON")), 502);
+    assertEquals(status(new ProviderError("circuit_open", "paused")), 502);
+    assertEquals(status(new ProviderError("timeout", "TMDb timed out after 8000ms")), 504);
+    assertEquals(status(new AppError("upstream_error", "TMDb responded with 500", 500)), 502);
+});
+
+Deno.test("error responses carry the code, request id and upstream status", async () => {
+    const response = errorResponse(new AppError("upstream_error", "TMDb responded with 500", 500), "req-12345678");
+    assertEquals(response.status, 502);
+    assertEquals(response.headers.get("X-Request-Id"), "req-12345678");
+    assertEquals(await response.json(), {
+        error: "TMDb responded with 500",
+        code: "upstream_error",
+        requestId: "req-12345678",
+        upstreamStatus: 500,
+    });
+});
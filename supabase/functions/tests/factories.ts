@@ -0,0 +1,15 @@
+import { createMediaItem, MediaItem } from "../_shared/media.ts";
+
+/**
+ * A movie on the given source, with a placeholder link; `fields` fills in the rest
+ */
+export function media(sourceType: string, sourceId: string, fields: Partial<MediaItem>): MediaItem {
+    return createMediaItem({
+        sourceType,
+        sourceId,
+        sourceUrl: `https://example.com/${sourceType}/${sourceId}`,
+        mediaType: "movie",
+        titleZh: "未知标题",
+        ...fields,
+    });
+}
@@ -0,0 +1,185 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { CollectedMedia, findCollected } from "../_shared/collections.ts";
+import { ImportFormatError, ImportRow, matchRow, parseCsv, parseImport, statusFromLabel } from "../_shared/imports.ts";
+import { setTransport } from "../_shared/providers/http.ts";
+import { searchTmdbTitles } from "../_shared/providers/tmdb.ts";
+import { media } from "./factories.ts";
+
+// The token is only sent, never checked, by the stub transport below
+if (!Deno.env.get("TMDB_ACCESS_TOKEN")) Deno.env.set("TMDB_ACCESS_TOKEN", "fixture-token");
+
+function row(fields: Partial<ImportRow>): ImportRow {
+    return { index: 0, title: "", titleOriginal: "", year: "----", status: "watched", mediaType: "movie", ...fields };
+}
+
+Deno.test("parseCsv handles quoted commas, quotes and line breaks", () => {
+    const rows = parseCsv('\uFEFFName,Note\r\n"Crouching Tiger, Hidden Dragon","said ""wow""\ntwice"\r\n\r\n');
+    assertEquals(rows, [
+        ["Name", "Note"],
+        ["Crouching Tiger, Hidden Dragon", 'said "wow"\ntwice'],
+    ]);
+    assertThrows(() => parseCsv('Name\n"open'), ImportFormatError);
+});
+
+Deno.test("statusFromLabel maps every export's labels", () => {
+    assertEquals(statusFromLabel("看过"), "watched");
+    assertEquals(statusFromLabel("想看 (12)"), "wish");
+    assertEquals(statusFromLabel("mark"), "wish");
+    assertEquals(statusFromLabel(3), "watching");
+    assertEquals(statusFromLabel("搁置"), "on_hold");
+    assertEquals(statusFromLabel("5"), "dropped");
+    assertEquals(statusFromLabel("Watchlist"), "wish");
+    assertEquals(statusFromLabel("rated"), null);
+});
+
+Deno.test("parseImport reads Douban CSV and API JSON with their subject links", () => {
+    const csv = parseImport("douban", [
+        "标题,条目链接,上映日期,状态",
+        "千与千寻 / 千と千尋の神隠し,https://movie.douban.com/subject/1291561/,2001-07-20(日本),看过",
+        ",https://movie.douban.com/subject/1/,2000,看过",
+    ].join("\n"));
+    assertEquals(csv.format, "csv");
+    assertEquals(csv.rows, [{
+        index: 0,
+        title: "千与千寻",
+        titleOriginal: "千と千尋の神隠し",
+        year: "2001",
+        status: "watched",
+        source: { sourceType: "douban", sourceId: "1291561", sourceUrl: "https://movie.douban.com/subject/1291561" },
+        mediaType: null,
+    }]);
+
+    const json = parseImport("douban", JSON.stringify({
+        interests: [{ status: "mark", subject: { id: "26794435", title: "哪吒之魔童降世", year: "2019", type: "movie" } }],
+    }));
+    assertEquals(json.format, "json");
+    assertEquals(json.rows[0].status, "wish");
+    assertEquals(json.rows[0].source?.sourceId, "26794435");
+    assertEquals(json.rows[0].mediaType, "movie");
+});
+
+Deno.test("parseImport reads a Douban list page's status from its heading", () => {
+    const page = `<html><head><title>小明看过的影视</title></head><body><div class="grid-view">
+        <div class="item"><li class="title"><a href="https://movie.douban.com/subject/1292052/">
+            <em>肖申克的救赎 / The Shawshank Redemption</em></a></li>
+            <li class="intro">1994-09-10(多伦多电影节) / 美国</li></div>
+    </div></body></html>`;
+    const parsed = parseImport("douban", page);
+    assertEquals(parsed.format, "html");
+    assertEquals(parsed.rows.map((r) => [r.title, r.titleOriginal, r.year, r.status, r.source?.sourceId]), [
+        ["肖申克的救赎", "The Shawshank Redemption", "1994", "watched", "1292052"],
+    ]);
+});
+
+Deno.test("parseImport keeps Bangumi anime and live action and skips the rest", () => {
+    const parsed = parseImport("bangumi", JSON.stringify({
+        data: [
+            { subject_id: 253, type: 2, subject: { id: 253, type: 2, name: "カウボーイビバップ", name_cn: "星际牛仔", date: "1998-10-24" } },
+            { subject_id: 1, type: 1, subject: { id: 1, type: 1, name: "本", name_cn: "" } },
+            { subject_id: 9, type: 5, subject: { id: 9, type: 6, name: "半沢直樹", name_cn: "半泽直树", date: "2013-07-07" } },
+        ],
+    }));
+    assertEquals(parsed.skipped, 1);
+    assertEquals(parsed.rows.map((r) => [r.index, r.title, r.year, r.status, r.mediaType, r.source?.sourceId]), [
+        [0, "星际牛仔", "1998", "watched", "anime", "253"],
+        [1, "半泽直树", "2013", "dropped", null, "9"],
+    ]);
+});
+
+Deno.test("parseImport reads Letterboxd CSV and pages, leaving unseen films without a status", () => {
+    const csv = parseImport("letterboxd", [
+        "Date,Name,Year,Letterboxd URI,Rating",
+        "2024-01-02,Perfect Days,2023,https://boxd.it/abc,4.5",
+        "2024-01-03,Past Lives,2023,https://boxd.it/def,",
+    ].join("\n"));
+    assertEquals(csv.rows.map((r) => [r.title, r.year, r.status]), [
+        ["Perfect Days", "2023", "watched"],
+        ["Past Lives", "2023", null],
+    ]);
+
+    const page = `<ul class="poster-list"><li><div data-item-name="Perfect Days (2023)"></div></li></ul>`;
+    assertEquals(parseImport("letterboxd", page).rows.map((r) => [r.title, r.year]), [["Perfect Days", "2023"]]);
+    assertThrows(() => parseImport("letterboxd", "[]"), ImportFormatError);
+});
+
+Deno.test("matchRow reports matched, ambiguous and unmatched rows", () => {
+    const perfectDays = media("tmdb", "976893", { titleZh: "完美的日子", titleOriginal: "Perfect Days", year: "2023" });
+
+    const matched = matchRow(row({ title: "Perfect Days", year: "2023" }), [
+        perfectDays,
+        media("tmdb", "1", { titleZh: "Other Film", titleOriginal: "Other Film", year: "2023" }),
+    ]);
+    assertEquals(matched.result, "matched");
+    assertEquals(matched.item?.sourceId, "976893");
+
+    const remakes = [
+        media("tmdb", "10", { titleZh: "Solaris", titleOriginal: "Solaris", year: "1972" }),
+        media("tmdb", "11", { titleZh: "Solaris", titleOriginal: "Solaris", year: "2002" }),
+    ];
+    const ambiguous = matchRow(row({ title: "Solaris" }), remakes);
+    assertEquals(ambiguous.result, "ambiguous");
+    assertEquals(ambiguous.candidates.map((item) => item.sourceId).sort(), ["10", "11"]);
+    assertEquals(matchRow(row({ title: "Solaris", year: "2002" }), remakes).item?.sourceId, "11");
+
+    assertEquals(matchRow(row({ title: "Nothing Like It", year: "1999" }), remakes).result, "unmatched");
+});
+
+Deno.test("matchRow merges a row's own source into its match, or offers it when there's no single match", () => {
+    const source = { sourceType: "douban" as const, sourceId: "1291561", sourceUrl: "https://movie.douban.com/subject/1291561" };
+    const spirited = row({ title: "千与千寻", titleOriginal: "千と千尋の神隠し", year: "2001", source });
+
+    const merged = matchRow(spirited, [
+        media("tmdb", "129", { titleZh: "千与千寻", titleOriginal: "千と千尋の神隠し", year: "2001" }),
+    ]);
+    assertEquals(merged.result, "matched");
+    assertEquals(merged.item?.externalIds, { tmdb: "129", douban: "1291561" });
+
+    const alone = matchRow(spirited, []);
+    assertEquals([alone.result, alone.item], ["unmatched", undefined]);
+    assertEquals([alone.ownSource?.sourceType, alone.ownSource?.sourceId], ["douban", "1291561"]);
+
+    const remakes = matchRow(row({ title: "Solaris", source: { ...source, sourceId: "1" } }), [
+        media("tmdb", "10", { titleZh: "Solaris", titleOriginal: "Solaris", year: "1972" }),
+        media("tmdb", "11", { titleZh: "Solaris", titleOriginal: "Solaris", year: "2002" }),
+    ]);
+    assertEquals([remakes.result, remakes.item, remakes.candidates.length], ["ambiguous", undefined, 2]);
+    assertEquals(remakes.ownSource?.sourceId, "1");
+
+    assertEquals(matchRow(row({ title: "Solaris" }), []).ownSource, undefined);
+});
+
+Deno.test("Letterboxd rows match TMDb hits titled in English", async () => {
+    const parasite = parseImport("letterboxd", "Date,Name,Year,Letterboxd URI\n2024-01-02,Parasite,2019,https://boxd.it/hTha\n").rows[0];
+    const titles: Record<string, string> = { "zh-CN": "寄生虫", "en-US": "Parasite" };
+    setTransport((url) => {
+        const language = new URL(url).searchParams.get("language") ?? "";
+        return Promise.resolve(Response.json({
+            results: [{ id: 496243, media_type: "movie", title: titles[language], original_title: "기생충", release_date: "2019-05-30" }],
+        }));
+    });
+    try {
+        const signal = new AbortController().signal;
+        assertEquals(matchRow(parasite, await searchTmdbTitles("Parasite", signal)).result, "unmatched");
+
+        const match = matchRow(parasite, await searchTmdbTitles("Parasite", signal, "en-US"));
+        assertEquals(match.result, "matched");
+        assertEquals(match.item?.sourceId, "496243");
+    } finally {
+        setTransport(null);
+    }
+});
+
+Deno.test("findCollected spots imports already in the collection by source or by title", () => {
+    const collection: CollectedMedia[] = [
+        { mediaId: "m1", status: "watched", media: media("douban", "1291561", { titleZh: "千与千寻", titleOriginal: "千と千尋の神隠し", year: "2001" }) },
+        { mediaId: "m2", status: "wish", media: media("tmdb", "496243", { titleZh: "寄生虫", titleOriginal: "기생충", year: "2019" }) },
+    ];
+
+    const bySource = media("tmdb", "496243", { titleZh: "Parasite", titleOriginal: "기생충", year: "2019" });
+    assertEquals(findCollected(bySource, collection)?.mediaId, "m2");
+
+    const byTitle = media("tmdb", "129", { titleZh: "千与千寻", titleOriginal: "千と千尋の神隠し", year: "2001" });
+    assertEquals(findCollected(byTitle, collection)?.status, "watched");
+
+    assertEquals(findCollected(media("tmdb", "1", { titleZh: "Perfect Days", year: "2023" }), collection), undefined);
+});
@@ -0,0 +1,173 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { matchListingOnTmdb, sortListing } from "../_shared/listings.ts";
+import { createMediaItem } from "../_shared/media.ts";
+import { setTransport } from "../_shared/providers/http.ts";
+import { fetchMaoyanListing } from "../_shared/providers/maoyan.ts";
+import { media } from "./factories.ts";
+
+// The token is only sent, never checked, by the stub transports below
+if (!Deno.env.get("TMDB_ACCESS_TOKEN")) Deno.env.set("TMDB_ACCESS_TOKEN", "fixture-token");
+
+const SHOWING_URL = "https://m.maoyan.com/ajax/movieOnInfoList?ci=1&token=";
+
+const SHOWING = {
+    movieList: [
+        {
+            id: 1446115,
+            nm: "志愿军：存亡之战",
+            sc: 9.5,
+            wish: 123456,
+            rt: "2026-10-01",
+            img: "https://p0.pipi.cn/mmdb/w.h/poster.jpg",
+            dir: "陈凯歌",
+            star: "朱一龙,辛柏青",
+            showStateButton: { content: "购票" },
+        },
+        { id: 1520202, nm: "小小的我", sc: 0, wish: 8800, rt: "2026-10-12" },
+    ],
+};
+
+const DETAIL = {
+    detailMovie: {
+        id: 1446115,
+        nm: "志愿军：存亡之战",
+        enm: "The Volunteers: To the War",
+        sc: 9.1,
+        wish: 99,
+        rt: "2026-09-30",
+        img: "https://p0.pipi.cn/mmdb/w.h/detail.jpg",
+        dir: "陈凯歌",
+        star: "朱一龙,辛柏青",
+        cat: "剧情,历史,战争",
+        dur: 143,
+        dra: "  1951年，志愿军在铁原阻击战中死守阵地。 ",
+    },
+};
+
+function replayJson(responses: Record<string, unknown>) {
+    setTransport((url) => Promise.resolve(
+        url in responses
+            ? new Response(JSON.stringify(responses[url]), { headers: { "Content-Type": "application/json" } })
+            : new Response("not recorded", { status: 404 })
+    ));
+}
+
+function film(sourceId: string, fields: { titleZh: string; rating?: number; wish?: string; releaseDate?: string }) {
+    return createMediaItem({
+        sourceType: "maoyan",
+        sourceId,
+        sourceUrl: `https://m.maoyan.com/movie/${sourceId}`,
+        mediaType: "movie",
+        year: fields.releaseDate?.slice(0, 4) || "----",
+        ...fields,
+    });
+}
+
+Deno.test("listing films are filled in from detail pages, keeping the listing's daily fields", async () => {
+    replayJson({
+        [SHOWING_URL]: SHOWING,
+        "https://m.maoyan.com/ajax/detailmovie?movieId=1446115": DETAIL,
+    });
+    try {
+        const items = await fetchMaoyanListing("showing", 1, new AbortController().signal);
+        assertEquals(items.map((item) => item.sourceId), ["1446115", "1520202"]);
+
+        const [volunteers, unlisted] = items;
+        assertEquals(volunteers.titleOriginal, "The Volunteers: To the War");
+        assertEquals(volunteers.summary, "1951年，志愿军在铁原阻击战中死守阵地。");
+        assertEquals(volunteers.genres, ["剧情", "历史", "战争"]);
+        assertEquals(
+            [volunteers.rating, volunteers.ratingMaoyan, volunteers.wish, volunteers.releaseDate, volunteers.posterUrl],
+            [9.5, 9.5, "123456", "2026-10-01", "https://p0.pipi.cn/mmdb/poster.jpg"]
+        );
+        assertEquals(volunteers.sources?.map((source) => source.rating), [9.5]);
+        assertEquals([volunteers.cast, volunteers.crew], [undefined, undefined]);
+
+        // Its detail page 404s, so it stays as listed
+        assertEquals([unlisted.titleZh, unlisted.wish, unlisted.summary], ["小小的我", "8800", "暂无简介"]);
+    } finally {
+        setTransport(null);
+    }
+});
+
+Deno.test("a failed listing rejects", async () => {
+    replayJson({});
+    try {
+        await assertRejects(() => fetchMaoyanListing("coming", 1, new AbortController().signal));
+    } finally {
+        setTransport(null);
+    }
+});
+
+const LISTED = [
+    film("1", { titleZh: "甲", rating: 8.1, wish: "500", releaseDate: "2026-10-01" }),
+    film("2", { titleZh: "乙", rating: 0, wish: "9000" }),
+    film("3", { titleZh: "丙", rating: 9.2, wish: "100", releaseDate: "2026-10-17" }),
+    film("4", { titleZh: "丁", rating: 8.1, wish: "800", releaseDate: "2026-09-20" }),
+];
+
+function order(items: ReturnType<typeof sortListing>): string[] {
+    return items.map((item) => item.titleZh);
+}
+
+Deno.test("date sorts newest first for films showing and soonest first for upcoming ones", () => {
+    assertEquals(order(sortListing(LISTED, "date", "showing")), ["丙", "甲", "丁", "乙"]);
+    assertEquals(order(sortListing(LISTED, "date", "coming")), ["丁", "甲", "丙", "乙"]);
+});
+
+Deno.test("score ties go to the wish count, and no sort keeps Maoyan's order", () => {
+    assertEquals(order(sortListing(LISTED, "score", "showing")), ["丙", "丁", "甲", "乙"]);
+    assertEquals(order(sortListing(LISTED, "wish", "coming")), ["乙", "丁", "甲", "丙"]);
+    assertEquals(order(sortListing(LISTED, null, "showing")), ["甲", "乙", "丙", "丁"]);
+});
+
+Deno.test("a failed TMDb search only costs its own film's match", async () => {
+    const listed = [
+        film("1", { titleZh: "沙丘2", releaseDate: "2024-03-08" }),
+        film("2", { titleZh: "抓娃娃", releaseDate: "2024-07-16" }),
+        film("3", { titleZh: "默杀", releaseDate: "2024-07-04" }),
+    ];
+    setTransport((url) => {
+        const { pathname, searchParams } = new URL(url);
+        if (pathname.endsWith("/movie/now_playing")) {
+            const results = searchParams.get("page") === "1"
+                ? [{ id: 693134, title: "沙丘2", original_title: "Dune: Part Two", release_date: "2024-02-27" }]
+                : [];
+            return Promise.resolve(Response.json({ results }));
+        }
+        if (searchParams.get("query") === "抓娃娃") {
+            return Promise.resolve(new Response("rate limited", { status: 429 }));
+        }
+        if (searchParams.get("query") === "默杀") {
+            return Promise.resolve(Response.json({
+                results: [{ id: 1290432, title: "默杀", original_title: "默杀", release_date: "2024-07-04" }],
+            }));
+        }
+        return Promise.resolve(new Response("not recorded", { status: 404 }));
+    });
+    try {
+        const { items, matched, error } = await matchListingOnTmdb(listed, "showing", 5000);
+        assertEquals(items.map((item) => [item.titleZh, item.externalIds?.tmdb]), [
+            ["沙丘2", "693134"],
+            ["抓娃娃", undefined],
+            ["默杀", "1290432"],
+        ]);
+        assertEquals(matched, 2);
+        assertEquals(error !== null, true);
+    } finally {
+        setTransport(null);
+    }
+});
+
+Deno.test("matching keeps every film when TMDb fails altogether", async () => {
+    setTransport(() => Promise.resolve(new Response("unavailable", { status: 503 })));
+    try {
+        const listed = [media("maoyan", "1", { titleZh: "沙丘2", year: "2024" })];
+        const { items, matched, error } = await matchListingOnTmdb(listed, "coming", 5000);
+        assertEquals(items.map((item) => item.sourceId), ["1"]);
+        assertEquals(matched, 0);
+        assertEquals(error !== null, true);
+    } finally {
+        setTransport(null);
+    }
+});
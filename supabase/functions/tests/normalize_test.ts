@@ -0,0 +1,83 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { areTitlesSimilar } from "../_shared/dedup.ts";
+import {
+    Installment,
+    normalizeTitle,
+    parseInstallment,
+    parseNumeral,
+    parseSeason,
+} from "../_shared/normalize/title.ts";
+
+// Known cross-language / cross-script title pairs, see fixtures/title-pairs.json
+interface TitlePair {
+    a: string;
+    b: string;
+    note: string;
+}
+
+interface SeasonCase {
+    title: string;
+    base: string;
+    season: number | null;
+}
+
+interface InstallmentCase {
+    title: string;
+    base: string;
+    installment: Installment;
+}
+
+const fixtures: {
+    same: TitlePair[];
+    different: TitlePair[];
+    seasons: SeasonCase[];
+    installments: InstallmentCase[];
+} = JSON.parse(
+    await Deno.readTextFile(new URL("./fixtures/title-pairs.json", import.meta.url))
+);
+
+for (const { a, b, note } of fixtures.same) {
+    Deno.test(`same title: ${a} ~ ${b} (${note})`, () => {
+        assertEquals(areTitlesSimilar(a, b), true, `${normalizeTitle(a)} vs ${normalizeTitle(b)}`);
+        assertEquals(areTitlesSimilar(b, a), true);
+    });
+}
+
+for (const { a, b, note } of fixtures.different) {
+    Deno.test(`different titles: ${a} / ${b} (${note})`, () => {
+        assertEquals(areTitlesSimilar(a, b), false, `${normalizeTitle(a)} vs ${normalizeTitle(b)}`);
+        assertEquals(areTitlesSimilar(b, a), false);
+    });
+}
+
+for (const { title, base, season } of fixtures.seasons) {
+    Deno.test(`season suffix: ${title}`, () => {
+        assertEquals(parseSeason(title), { base, season });
+    });
+}
+
+for (const { title, base, installment } of fixtures.installments) {
+    Deno.test(`installment markers: ${title}`, () => {
+        assertEquals(parseInstallment(title), { base, installment });
+    });
+}
+
+Deno.test("parseNumeral reads Arabic and Chinese numerals", () => {
+    assertEquals(parseNumeral("3"), 3);
+    assertEquals(parseNumeral("三"), 3);
+    assertEquals(parseNumeral("十"), 10);
+    assertEquals(parseNumeral("十二"), 12);
+    assertEquals(parseNumeral("二十"), 20);
+    assertEquals(parseNumeral("二十一"), 21);
+    assertEquals(parseNumeral("三三"), null);
+    assertEquals(parseNumeral("九区"), null);
+});
+
+Deno.test("normalizeTitle is idempotent", () => {
+    for (const { a, b } of [...fixtures.same, ...fixtures.different]) {
+        for (const title of [a, b]) {
+            const once = normalizeTitle(title);
+            assertEquals(normalizeTitle(once), once, title);
+        }
+    }
+});
@@ -0,0 +1,111 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { HostPolicy, OutboundClient, ProviderError } from "../_shared/providers/http.ts";
+
+const FAST: Partial<HostPolicy> = {
+    retries: 2,
+    backoffBaseMs: 1,
+    backoffMaxMs: 5,
+    failureThreshold: 3,
+    cooldownMs: 60_000,
+};
+
+// Fake network answering from a queue of responses, recording every call
+function fakeFetch(responses: (() => Response)[]) {
+    const calls: string[] = [];
+    const impl = (input: string | URL | Request) => {
+        calls.push(String(input));
+        const next = responses.shift();
+        return Promise.resolve(next ? next() : new Response("ok"));
+    };
+    return { calls, impl: impl as typeof fetch };
+}
+
+function html(body: string, status = 200): () => Response {
+    return () => new Response(body, { status, headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+Deno.test("retries 429 and 5xx responses, then succeeds", async () => {
+    const network = fakeFetch([() => new Response("", { status: 503 }), () => new Response("", { status: 429 })]);
+    const client = new OutboundClient({ "example.com": FAST }, network.impl);
+
+    const response = await client.fetch("https://example.com/a");
+    assertEquals(response.status, 200);
+    assertEquals(network.calls.length, 3);
+});
+
+Deno.test("returns the last response once retries run out", async () => {
+    const network = fakeFetch([503, 503, 502].map((status) => () => new Response("", { status })));
+    const client = new OutboundClient({ "example.com": { ...FAST, failureThreshold: 10 } }, network.impl);
+
+    assertEquals((await client.fetch("https://example.com/a")).status, 502);
+    assertEquals(network.calls.length, 3);
+});
+
+Deno.test("repeated failures open the circuit for the whole domain", async () => {
+    const network = fakeFetch(Array.from({ length: 9 }, () => () => new Response("", { status: 503 })));
+    const client = new OutboundClient({ "example.com": FAST }, network.impl);
+
+    // Each request fails once however many attempts it took
+    await client.fetch("https://example.com/a");
+    await client.fetch("https://example.com/b");
+    assertEquals(network.calls.length, 6);
+
+    await client.fetch("https://example.com/c");
+    const error = await assertRejects(() => client.fetch("https://www.example.com/d"), ProviderError);
+    assertEquals(error.status, "circuit_open");
+    assertEquals(network.calls.length, 9);
+});
+
+Deno.test("a request that recovers on retry doesn't count towards the circuit", async () => {
+    const network = fakeFetch([
+        () => new Response("", { status: 503 }),
+        () => new Response("", { status: 503 }),
+        () => new Response("ok"),
+        () => new Response("", { status: 503 }),
+        () => new Response("", { status: 503 }),
+        () => new Response("", { status: 503 }),
+    ]);
+    const client = new OutboundClient({ "example.com": { ...FAST, failureThreshold: 1 } }, network.impl);
+
+    assertEquals((await client.fetch("https://example.com/a")).status, 200);
+    assertEquals((await client.fetch("https://example.com/b")).status, 503);
+    const error = await assertRejects(() => client.fetch("https://example.com/c"), ProviderError);
+    assertEquals(error.status, "circuit_open");
+});
+
+Deno.test("captcha pages are rejected as blocked", async () => {
+    const network = fakeFetch([html('<form><input name="captcha-solution"></form>', 403)]);
+    const client = new OutboundClient({ "douban.com": FAST }, network.impl);
+
+    const error = await assertRejects(() => client.fetch("https://movie.douban.com/subject/1/"), ProviderError);
+    assertEquals(error.status, "blocked");
+    assertEquals(error.httpStatus, 403);
+
+    // The block pauses the source instead of retrying it
+    const paused = await assertRejects(() => client.fetch("https://search.douban.com/"), ProviderError);
+    assertEquals(paused.status, "circuit_open");
+});
+
+Deno.test("HTML bodies are still readable after screening", async () => {
+    const network = fakeFetch([html("<h1>进击的巨人</h1>")]);
+    const client = new OutboundClient({}, network.impl);
+
+    const response = await client.fetch("https://bgm.tv/subject/1");
+    assertEquals(await response.text(), "<h1>进击的巨人</h1>");
+});
+
+Deno.test("caps concurrent requests per host", async () => {
+    let active = 0;
+    let peak = 0;
+    const impl = async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+        return new Response("ok");
+    };
+    const client = new OutboundClient({ "bgm.tv": { maxConcurrent: 2 } }, impl as typeof fetch);
+
+    await Promise.all(Array.from({ length: 6 }, (_, i) => client.fetch(`https://bgm.tv/subject/${i}`)));
+    assertEquals(peak, 2);
+});
@@ -0,0 +1,95 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { AppError } from "../_shared/errors.ts";
+import {
+    buildNextCursor,
+    decodeCursor,
+    encodeCursor,
+    excludeSeen,
+    PageOutcome,
+    PageState,
+    SearchCursor,
+} from "../_shared/pagination.ts";
+import { media } from "./factories.ts";
+
+const FIRST_PAGE: PageState = { query: "千与千寻", type: "all", page: 1, seen: [], failures: {} };
+
+function next(state: PageState, outcomes: PageOutcome[]): SearchCursor | null {
+    const cursor = buildNextCursor(state, outcomes, []);
+    return cursor ? decodeCursor(cursor, state.query, state.type) : null;
+}
+
+function afterPage(cursor: SearchCursor): PageState {
+    return { ...FIRST_PAGE, page: cursor.page, seen: cursor.seen, failures: cursor.failures ?? {} };
+}
+
+Deno.test("cursors round-trip and only fit their own query and type", () => {
+    const cursor: SearchCursor = {
+        v: 1,
+        q: "千与千寻",
+        t: "all",
+        page: 2,
+        positions: { tmdb: { page: 2, index: 0 }, douban: null },
+        seen: [["千与千寻", "千と千尋の神隠し", "2001"]],
+    };
+    const encoded = encodeCursor(cursor);
+    assertEquals(/^[A-Za-z0-9_-]+$/.test(encoded), true);
+    assertEquals(decodeCursor(encoded, "  千与千寻 ", "all"), cursor);
+
+    assertThrows(() => decodeCursor(encoded, "千与千寻", "tv"), AppError, "does not belong");
+    assertThrows(() => decodeCursor(encoded, "哈尔的移动城堡", "all"), AppError, "does not belong");
+    assertThrows(() => decodeCursor("not a cursor", "千与千寻", "all"), AppError, "Invalid cursor");
+    assertThrows(() => decodeCursor(encodeCursor({ ...cursor, v: 2 } as unknown as SearchCursor), "千与千寻", "all"), AppError);
+});
+
+Deno.test("titles returned on earlier pages are left out, related entries included", () => {
+    const spirited = media("tmdb", "129", { titleZh: "千与千寻", titleOriginal: "千と千尋の神隠し", year: "2001" });
+    const howl = media("tmdb", "4935", { titleZh: "哈尔的移动城堡", titleOriginal: "ハウルの動く城", year: "2004" });
+    const sequel = media("tmdb", "2", { titleZh: "千与千寻2", titleOriginal: "千と千尋の神隠し2", year: "2030" });
+
+    const cursor = buildNextCursor(FIRST_PAGE, [{ name: "tmdb", status: "ok", next: { page: 2 } }], [{ ...spirited, related: [sequel] }]);
+    const state = afterPage(decodeCursor(cursor!, "千与千寻", "all"));
+    assertEquals(state.seen.map(([title]) => title), ["千与千寻", "千与千寻2"]);
+
+    const fromDouban = media("douban", "1291561", { titleZh: "千与千寻", titleOriginal: "千と千尋の神隠し", year: "2001" });
+    assertEquals(excludeSeen([fromDouban, howl, sequel], state.seen).map((item) => item.titleZh), ["哈尔的移动城堡"]);
+});
+
+Deno.test("pagination ends once every provider is exhausted", () => {
+    assertEquals(next(FIRST_PAGE, [
+        { name: "tmdb", status: "ok", next: null },
+        { name: "douban", status: "ok", next: null },
+    ]), null);
+
+    const cursor = next(FIRST_PAGE, [
+        { name: "tmdb", status: "ok", next: null },
+        { name: "douban", status: "ok", next: { start: 8 } },
+    ]);
+    assertEquals(cursor?.page, 2);
+    assertEquals(cursor?.positions, { tmdb: null, douban: { start: 8 } });
+});
+
+Deno.test("a failing provider is retried on the next page, then given up", () => {
+    const exhausted: PageOutcome = { name: "tmdb", status: "ok", next: null };
+    const timedOut: PageOutcome = { name: "douban", status: "timeout", next: { start: 8 } };
+
+    const retry = next(FIRST_PAGE, [exhausted, timedOut]);
+    assertEquals(retry?.positions.douban, { start: 8 });
+    assertEquals(retry?.failures, { douban: 1 });
+
+    assertEquals(next(afterPage(retry!), [timedOut]), null);
+
+    // Answering resets the count
+    const recovered = next(afterPage(retry!), [{ name: "douban", status: "ok", next: { start: 16 } }]);
+    assertEquals([recovered?.positions.douban, recovered?.failures], [{ start: 16 }, undefined]);
+});
+
+Deno.test("blocked providers and open circuits end their pagination at once", () => {
+    for (const status of ["blocked", "circuit_open"] as const) {
+        assertEquals(next(FIRST_PAGE, [{ name: "douban", status, next: { start: 8 } }]), null);
+        const cursor = next(FIRST_PAGE, [
+            { name: "douban", status, next: { start: 8 } },
+            { name: "tmdb", status: "ok", next: { page: 2 } },
+        ]);
+        assertEquals(cursor?.positions, { douban: null, tmdb: { page: 2 } });
+    }
+});
@@ -0,0 +1,98 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { MediaItem } from "../_shared/media.ts";
+import { areSamePerson, deduplicatePeople, Person } from "../_shared/people.ts";
+import { bangumiProvider } from "../_shared/providers/bangumi.ts";
+import { setTransport } from "../_shared/providers/http.ts";
+import { media } from "./factories.ts";
+
+function person(sourceType: string, sourceId: string, name: string, fields: Partial<Person> = {}): Person {
+    return {
+        name,
+        nameOriginal: "",
+        aliases: [],
+        avatarUrl: "",
+        roles: [],
+        sources: [{ sourceType, sourceId, sourceUrl: `https://example.com/${sourceType}/person/${sourceId}` }],
+        knownFor: [],
+        ...fields,
+    };
+}
+
+const SPIRITED_AWAY: MediaItem = media("tmdb", "129", { titleZh: "千与千寻", titleOriginal: "千と千尋の神隠し", year: "2001" });
+const SPIRITED_AWAY_BGM: MediaItem = media("bgm", "1430", { titleZh: "千与千寻", titleOriginal: "千と千尋の神隠し", year: "2001" });
+
+Deno.test("the same name in another script is the same person", () => {
+    assertEquals(areSamePerson(person("tmdb", "608", "宮崎駿"), person("bgm", "1032", "宫崎骏")), true);
+});
+
+Deno.test("a shared work alone doesn't make a film's director and lead one person", () => {
+    const director = person("tmdb", "608", "宫崎骏", { roles: ["Directing"], knownFor: [SPIRITED_AWAY] });
+    const lead = person("bgm", "5046", "柊瑠美", { roles: ["声优"], knownFor: [SPIRITED_AWAY_BGM] });
+    assertEquals(areSamePerson(director, lead), false);
+});
+
+Deno.test("a close spelling counts once a shared work confirms it", () => {
+    const tmdb = person("tmdb", "608", "Hayao Miyazaki", { knownFor: [SPIRITED_AWAY] });
+    const bgm = person("bgm", "1032", "Miyazaki Hayao", { knownFor: [SPIRITED_AWAY_BGM] });
+    assertEquals(areSamePerson(tmdb, bgm), true);
+    assertEquals(areSamePerson(tmdb, { ...bgm, knownFor: [] }), false);
+});
+
+Deno.test("two ids on one source are never merged, even with the same name", () => {
+    const first = person("tmdb", "1", "王伟", { knownFor: [SPIRITED_AWAY] });
+    const second = person("tmdb", "2", "王伟", { knownFor: [SPIRITED_AWAY] });
+    assertEquals(areSamePerson(first, second), false);
+    assertEquals(deduplicatePeople([first, second]).length, 2);
+});
+
+Deno.test("deduplication keeps every source of a merged person", () => {
+    const merged = deduplicatePeople([
+        person("tmdb", "608", "Hayao Miyazaki", { nameOriginal: "宮崎駿" }),
+        person("bgm", "1032", "宫崎骏"),
+        person("tmdb", "1", "王伟"),
+    ]);
+    assertEquals(merged.length, 2);
+    assertEquals(merged[0].name, "宫崎骏");
+    assertEquals(merged[0].sources.map((source) => `${source.sourceType}:${source.sourceId}`), ["tmdb:608", "bgm:1032"]);
+    // The merged person now has a bgm id, so another bgm entry is someone else
+    assertEquals(areSamePerson(merged[0], person("bgm", "9999", "宫崎骏")), false);
+});
+
+const AOI_SEARCH = `
+<div id="columnSearchB">
+    <div class="light_odd">
+        <a class="avatar" href="/person/5868"><img src="//lain.bgm.tv/pic/crt/s/aoi.jpg"></a>
+        <h2><a class="l" href="/person/5868">宮﨑あおい</a></h2>
+        <div class="prsn_info"><span class="tip">声优 演员</span></div>
+    </div>
+</div>`;
+
+const AOI_WORKS = `
+<ul id="browserItemList">
+    <li class="item">
+        <h3><a class="l" href="/subject/37785">狼的孩子雨和雪</a> <small class="grey">おおかみこどもの雨と雪</small></h3>
+        <p class="info tip">2012年7月21日 / 细田守</p>
+    </li>
+</ul>`;
+
+Deno.test("a near name on Bangumi merges once its works page confirms a shared work", async () => {
+    setTransport((url) => {
+        const { pathname } = new URL(url);
+        if (pathname.startsWith("/mono_search/")) return Promise.resolve(new Response(AOI_SEARCH));
+        if (pathname === "/person/5868/works") return Promise.resolve(new Response(AOI_WORKS));
+        return Promise.resolve(new Response("not recorded", { status: 404 }));
+    });
+    try {
+        const [bgm] = await bangumiProvider.searchPeople!("宫崎葵", { signal: new AbortController().signal });
+        assertEquals(bgm.knownFor.map((work) => [work.titleZh, work.year]), [["狼的孩子雨和雪", "2012"]]);
+
+        const tmdb = person("tmdb", "99564", "Aoi Miyazaki", {
+            nameOriginal: "宮崎あおい",
+            knownFor: [media("tmdb", "110420", { titleZh: "狼的孩子雨和雪", titleOriginal: "おおかみこどもの雨と雪", year: "2012" })],
+        });
+        const merged = deduplicatePeople([tmdb, bgm]);
+        assertEquals(merged.map((p) => p.sources.map((source) => source.sourceType)), [["tmdb", "bgm"]]);
+    } finally {
+        setTransport(null);
+    }
+});
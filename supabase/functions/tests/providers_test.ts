@@ -0,0 +1,185 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { deduplicateResults } from "../_shared/dedup.ts";
+import { MediaItem } from "../_shared/media.ts";
+import { DOUBAN_PAGE_SIZE, doubanProvider } from "../_shared/providers/douban.ts";
+import { HOST_POLICIES, OutboundClient, ProviderError, setTransport, withTimeout } from "../_shared/providers/http.ts";
+import { providerRegistry } from "../_shared/providers/registry.ts";
+import { filterRelevantResults } from "../_shared/relevance.ts";
+import {
+    FixtureCase,
+    fixtureKey,
+    loadCases,
+    readGolden,
+    replayTransport,
+    searchProvider,
+    snapshot,
+    writeGolden,
+} from "./replay.ts";
+
+// Recorded pages and API responses are replayed through each provider and the
+// merge pipeline, and the output compared with fixtures/golden. After an
+// intended change, regenerate with UPDATE_GOLDEN=1 and review the diff.
+const UPDATE_GOLDEN = Deno.env.get("UPDATE_GOLDEN") === "1";
+
+// tmdbGet refuses to run without a token; the replay never checks it
+if (!Deno.env.get("TMDB_ACCESS_TOKEN")) Deno.env.set("TMDB_ACCESS_TOKEN", "fixture-token");
+
+async function assertGolden(name: string, actual: unknown): Promise<void> {
+    if (UPDATE_GOLDEN) {
+        await writeGolden(name, actual);
+        return;
+    }
+    assertEquals(snapshot(actual), await readGolden(name), `output differs from fixtures/golden/${name}.json`);
+}
+
+/**
+ * Each provider's results for the case, in registry order. Fails on requests
+ * the case has no recording for.
+ */
+async function replayCase(fixtureCase: FixtureCase, providerIds = fixtureCase.providers): Promise<MediaItem[][]> {
+    const replay = replayTransport(fixtureCase);
+    setTransport(replay.transport);
+    try {
+        const batches: MediaItem[][] = [];
+        for (const id of providerIds) {
+            batches.push(await searchProvider(providerRegistry.get(id)!, fixtureCase.query));
+        }
+        assertEquals(replay.missed, [], "requests without a recorded response");
+        return batches;
+    } finally {
+        setTransport(null);
+    }
+}
+
+for (const fixtureCase of await loadCases()) {
+    for (const id of fixtureCase.providers) {
+        Deno.test(`${id} parses ${fixtureCase.name}`, async () => {
+            const [items] = await replayCase(fixtureCase, [id]);
+            await assertGolden(`${fixtureCase.name}.${id}`, items);
+        });
+    }
+
+    for (const id of fixtureCase.providers.filter((id) => providerRegistry.get(id)?.searchListing)) {
+        Deno.test(`${id} lists ${fixtureCase.name} hits with a single request`, async () => {
+            const replay = replayTransport(fixtureCase);
+            const requested: string[] = [];
+            setTransport((url, init, signal) => {
+                requested.push(fixtureKey(url));
+                return replay.transport(url, init, signal);
+            });
+            try {
+                const listed = await providerRegistry.get(id)!.searchListing!(fixtureCase.query, {
+                    signal: new AbortController().signal,
+                });
+                const [searched] = await replayCase(fixtureCase, [id]);
+                assertEquals(requested.length, 1);
+                assertEquals(listed.map((item) => item.sourceId), searched.map((item) => item.sourceId));
+            } finally {
+                setTransport(null);
+            }
+        });
+    }
+
+    Deno.test(`merged and ranked results for ${fixtureCase.name}`, async () => {
+        const batches = await replayCase(fixtureCase);
+        const merged = deduplicateResults(batches.flat());
+        await assertGolden(`${fixtureCase.name}.pipeline`, filterRelevantResults(merged, fixtureCase.query));
+    });
+}
+
+Deno.test("a year filter searches TMDb films and shows by release year", async () => {
+    const requested: string[] = [];
+    setTransport((url) => {
+        requested.push(fixtureKey(url).replace(/^https:\/\/api\.themoviedb\.org\/3/, ""));
+        const { pathname } = new URL(url);
+        const results = pathname === "/3/search/movie"
+            ? [{ id: 1, title: "沙丘", release_date: "2021-09-15", popularity: 50 }]
+            : pathname === "/3/search/tv"
+            ? [{ id: 2, name: "沙丘：预言", first_air_date: "2021-11-17", popularity: 80 }]
+            : null;
+        // Detail lookups fail, so items keep their search payload
+        return Promise.resolve(results ? Response.json({ results, total_pages: 1 }) : new Response("", { status: 404 }));
+    });
+    const search = (searchType: "all" | "movie" | "tv") => {
+        requested.length = 0;
+        return providerRegistry.get("tmdb")!.search("沙丘", {
+            signal: new AbortController().signal,
+            searchType,
+            filters: { year: { min: 2021, max: 2021 }, directors: [], actors: [], sources: [], ratings: [] },
+        });
+    };
+    const searched = () => requested.filter((url) => url.startsWith("/search/")).map((url) => url.split("&")[0]).sort();
+    try {
+        // "movie" covers films and shows, as it does without a year
+        for (const searchType of ["all", "movie"] as const) {
+            const page = await search(searchType);
+            assertEquals(searched(), ["/search/movie?query=沙丘", "/search/tv?query=沙丘"]);
+            assertEquals(requested.filter((url) => url.includes("_year=2021")).length, 2);
+            assertEquals(page.items.map((item) => [item.mediaType, item.sourceId]), [["tv", "2"], ["movie", "1"]]);
+        }
+
+        const shows = await search("tv");
+        assertEquals(searched(), ["/search/tv?query=沙丘"]);
+        assertEquals(shows.items.map((item) => item.sourceId), ["2"]);
+    } finally {
+        setTransport(null);
+    }
+});
+
+Deno.test("detail lookups return null for titles the source doesn't have", async () => {
+    const detailed = providerRegistry.list().filter((provider) => provider.detail);
+    assertEquals(detailed.map((provider) => provider.id).sort(), ["bgm", "douban", "maoyan", "tmdb"]);
+
+    const signal = new AbortController().signal;
+    setTransport(() => Promise.resolve(new Response("not found", { status: 404 })));
+    try {
+        for (const provider of detailed) {
+            assertEquals(await provider.detail!("999999999", { signal }), null);
+        }
+    } finally {
+        setTransport(null);
+    }
+
+    // Other failures still reach the caller
+    setTransport(() => Promise.resolve(new Response("unavailable", { status: 500 })));
+    try {
+        for (const provider of detailed) {
+            await assertRejects(() => provider.detail!("999999999", { signal }), ProviderError);
+        }
+    } finally {
+        setTransport(null);
+    }
+});
+
+Deno.test("Douban fills in every hit on a page under douban.com's request spacing", async () => {
+    const ids = Array.from({ length: DOUBAN_PAGE_SIZE + 2 }, (_, i) => String(1000 + i));
+    const searchPage = `<div class="result-list">${ids.map((id) => `
+        <div class="result"><h3><a onclick="moreurl(this,{i:'0',query:'',from:'dou_search',sid: ${id}})">电影${id}</a></h3>
+        <span class="subject-cast">原名:Film ${id} / 导演 / 2020</span></div>`).join("")}</div>`;
+    const subjectPage = (id: string) => `<html><head><title>电影${id} (豆瓣)</title></head><body>
+        <h1><span property="v:itemreviewed">电影${id} Film ${id}</span></h1>
+        <div id="mainpic"><img src="https://img.doubanio.com/view/photo/s_ratio_poster/public/p${id}.jpg"></div>
+        <div id="info">原名: Film ${id}<br></div></body></html>`;
+
+    // Real douban.com limits and spacing, over a network answering in 300 ms
+    const network = (input: string | URL | Request) => {
+        const url = String(input);
+        const id = url.match(/subject\/(\d+)/)?.[1];
+        const body = id ? subjectPage(id) : searchPage;
+        return new Promise<Response>((resolve) => setTimeout(() => resolve(new Response(body, {
+            headers: { "content-type": "text/html; charset=utf-8" },
+        })), 300));
+    };
+    const client = new OutboundClient(HOST_POLICIES, network as typeof fetch);
+    setTransport((url, init, signal) => client.fetch(url, init, signal));
+    try {
+        const page = await withTimeout("douban", doubanProvider.timeoutMs, (signal) =>
+            doubanProvider.search("电影", { signal })
+        );
+        assertEquals(page.items.length, DOUBAN_PAGE_SIZE);
+        assertEquals(page.items.filter((item) => !item.posterUrl).map((item) => item.sourceId), []);
+        assertEquals(page.next, { start: DOUBAN_PAGE_SIZE });
+    } finally {
+        setTransport(null);
+    }
+});
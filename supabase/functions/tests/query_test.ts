@@ -0,0 +1,83 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { matchesFilters, parseQuery, QuerySyntaxError, SearchFilters } from "../_shared/query.ts";
+import { media } from "./factories.ts";
+
+function filters(fields: Partial<SearchFilters>): SearchFilters {
+    return { directors: [], actors: [], sources: [], ratings: [], ...fields };
+}
+
+Deno.test("filters are parsed out of the title text", () => {
+    const parsed = parseQuery('千与千寻 year:2001 导演：宫崎骏 actor:"Rumi Hiiragi" type:电影 source:bgm,tmdb douban>=7.5');
+    assertEquals(parsed.text, "千与千寻");
+    assertEquals(parsed.filters, {
+        year: { min: 2001, max: 2001 },
+        directors: ["宫崎骏"],
+        actors: ["Rumi Hiiragi"],
+        type: "movie",
+        sources: ["bgm", "tmdb"],
+        ratings: [{ field: "ratingDouban", op: ">=", value: 7.5 }],
+    });
+
+    // Unknown keys stay part of the title
+    assertEquals(parseQuery("Mission: Impossible").text, "Mission: Impossible");
+    assertEquals(parseQuery("Star Wars: Episode IV").filters, filters({}));
+});
+
+Deno.test("year ranges, comparisons and repeated year filters intersect", () => {
+    assertEquals(parseQuery("year:2000-2005").filters.year, { min: 2000, max: 2005 });
+    assertEquals(parseQuery("year:2000~2005").filters.year, { min: 2000, max: 2005 });
+    assertEquals(parseQuery("year>2000").filters.year, { min: 2001, max: 2100 });
+    assertEquals(parseQuery("year<=2010").filters.year, { min: 1870, max: 2010 });
+    assertEquals(parseQuery("year>=2000 year<2010").filters.year, { min: 2000, max: 2009 });
+});
+
+Deno.test("ratings default to at least and read any source", () => {
+    assertEquals(parseQuery("rating:8").filters.ratings, [{ field: "any", op: ">=", value: 8 }]);
+    assertEquals(parseQuery("imdb<6 bgm=7").filters.ratings, [
+        { field: "ratingImdb", op: "<", value: 6 },
+        { field: "ratingBangumi", op: "=", value: 7 },
+    ]);
+});
+
+Deno.test("malformed filters are syntax errors", () => {
+    const invalid: [string, string][] = [
+        ['title "unterminated', "Unterminated quote"],
+        ["year:", "Missing value"],
+        ["year:01", "Invalid year"],
+        ["year:1800", "out of range"],
+        ["year:2005-2000", "Empty year range"],
+        ["year>2010 year<2000", "do not overlap"],
+        ["rating>11", "Invalid rating"],
+        ["rating:high", "Invalid rating"],
+        ["director>宫崎骏", "does not support"],
+        ["type:documentary", "Unknown type"],
+        ["type:tv type:movie", "Conflicting type filters"],
+    ];
+    for (const [query, message] of invalid) {
+        assertThrows(() => parseQuery(query), QuerySyntaxError, message);
+    }
+});
+
+Deno.test("items are matched on year, people and ratings", () => {
+    const spirited = media("douban", "1291561", {
+        titleZh: "千与千寻",
+        year: "2001",
+        directors: ["宫崎骏"],
+        staff: "宫崎骏 / 柊瑠美 / 入野自由",
+        ratingDouban: 9.4,
+        ratingImdb: 8.6,
+    });
+
+    assertEquals(matchesFilters(spirited, filters({ year: { min: 2000, max: 2005 } })), true);
+    assertEquals(matchesFilters(spirited, filters({ year: { min: 2002, max: 2100 } })), false);
+    assertEquals(matchesFilters(media("douban", "1", { titleZh: "未定", year: "----" }), filters({ year: { min: 2000, max: 2005 } })), false);
+
+    // Listed directors, and the staff line for names only it has
+    assertEquals(matchesFilters(spirited, filters({ directors: ["宮崎駿"] })), true);
+    assertEquals(matchesFilters(spirited, filters({ actors: ["柊瑠美"] })), true);
+    assertEquals(matchesFilters(spirited, filters({ actors: ["木村拓哉"] })), false);
+
+    assertEquals(matchesFilters(spirited, filters({ ratings: [{ field: "any", op: ">=", value: 9 }] })), true);
+    assertEquals(matchesFilters(spirited, filters({ ratings: [{ field: "ratingImdb", op: ">", value: 9 }] })), false);
+    assertEquals(matchesFilters(spirited, filters({ ratings: [{ field: "ratingBangumi", op: ">=", value: 1 }] })), false);
+});
@@ -0,0 +1,114 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { CollectedMedia, CollectionStatus } from "../_shared/collections.ts";
+import { MediaItem } from "../_shared/media.ts";
+import { fetchBangumiRelated } from "../_shared/providers/bangumi.ts";
+import { setTransport } from "../_shared/providers/http.ts";
+import { buildTasteProfile, collectCandidates, rankRecommendations, Seed, SEED_WEIGHTS } from "../_shared/recommend.ts";
+import { media } from "./factories.ts";
+
+function collected(mediaId: string, status: CollectionStatus, item: MediaItem): CollectedMedia {
+    return { mediaId, status, media: item };
+}
+
+function seed(item: CollectedMedia, candidates: MediaItem[], subject: MediaItem | null = null): Seed {
+    return { collected: item, weight: SEED_WEIGHTS[item.status] ?? 0, subject, candidates };
+}
+
+const SPIRITED_AWAY = collected("m1", "watched", media("tmdb", "129", {
+    titleZh: "千与千寻",
+    titleOriginal: "千と千尋の神隠し",
+    year: "2001",
+    directors: ["宫崎骏"],
+}));
+
+const TOTORO = collected("m2", "wish", media("tmdb", "8392", {
+    titleZh: "龙猫",
+    titleOriginal: "となりのトトロ",
+    year: "1988",
+    directors: ["宫崎骏"],
+}));
+
+const MONONOKE = media("tmdb", "128", { titleZh: "幽灵公主", titleOriginal: "もののけ姫", year: "1997", rating: 8.3 });
+const HOWL = media("tmdb", "4935", { titleZh: "哈尔的移动城堡", titleOriginal: "ハウルの動く城", year: "2004", rating: 8.2 });
+
+Deno.test("the taste profile weighs watched titles over wished ones", () => {
+    const profile = buildTasteProfile([
+        seed(SPIRITED_AWAY, [], media("tmdb", "129", { titleZh: "千与千寻", genres: ["动画", "奇幻"], actors: ["柊瑠美"] })),
+        seed(TOTORO, [], media("tmdb", "8392", { titleZh: "龙猫", genres: ["动画", "家庭"] })),
+    ]);
+
+    assertEquals(profile.totalWeight, 1.5);
+    assertEquals([...profile.genres], [["动画", 1.5], ["奇幻", 1], ["家庭", 0.5]]);
+    // Named once per seed even when the database and the source both list them
+    assertEquals([...profile.directors], [["宫崎骏", 1.5]]);
+    assertEquals([...profile.actors], [["柊瑠美", 1]]);
+});
+
+Deno.test("collected titles are never recommended", () => {
+    const candidates = collectCandidates([
+        seed(SPIRITED_AWAY, [
+            MONONOKE,
+            // Same film under another source
+            media("douban", "1291843", { titleZh: "龙猫", titleOriginal: "となりのトトロ", year: "1988" }),
+            media("tmdb", "8392", { titleZh: "龙猫", year: "1988" }),
+        ]),
+    ], [SPIRITED_AWAY, TOTORO]);
+
+    assertEquals(candidates.map(({ item }) => item.titleZh), ["幽灵公主"]);
+});
+
+Deno.test("picks recommended by more seeds rank first and name their strongest seed", () => {
+    const seeds = [
+        seed(TOTORO, [HOWL, MONONOKE]),
+        seed(SPIRITED_AWAY, [MONONOKE]),
+    ];
+    const ranked = rankRecommendations(collectCandidates(seeds, [SPIRITED_AWAY, TOTORO]), buildTasteProfile(seeds));
+
+    assertEquals(ranked.map((item) => [item.titleZh, item.because.mediaId, item.reason]), [
+        ["幽灵公主", "m1", "因为你看过《千与千寻》"],
+        ["哈尔的移动城堡", "m2", "因为你想看《龙猫》"],
+    ]);
+    assertEquals(ranked[0].recommendationScore, 1.915);
+});
+
+const SUBJECT_HTML = `
+<h1 class="nameSingle"><a href="/subject/443106" title="迷宫饭">ダンジョン飯</a></h1>
+<ul id="infobox">
+    <li><span class="tip">中文名: </span>迷宫饭</li>
+    <li><span class="tip">导演: </span>宫岛善博</li>
+</ul>
+<div class="subject_tag_section"><a href="/anime/tag/奇幻" class="l"><span>奇幻</span></a></div>
+<div class="subject_section">
+    <h2 class="subtitle">关联条目</h2>
+    <ul class="browserCoverMedium clearit">
+        <li class="sep"><span class="sub">原作</span>
+            <a href="/subject/2716" title="迷宫饭" class="avatar thumbTip"><span class="avatarNeue" style="background-image:url('//lain.bgm.tv/pic/cover/m/aa/bb/2716.jpg')"></span></a>
+            <a href="/subject/2716" class="title">ダンジョン飯</a></li>
+        <li class="sep"><span class="sub">续集</span>
+            <a href="/subject/513219" title="迷宫饭 第二季" class="avatar thumbTip"><span class="avatarNeue" style="background-image:url('//lain.bgm.tv/pic/cover/m/cc/dd/513219.jpg')"></span></a>
+            <a href="/subject/513219" class="title">ダンジョン飯 第2期</a></li>
+        <li><span class="sub"></span>
+            <a href="/subject/520001" title="" class="avatar thumbTip"><span class="avatarNeue"></span></a>
+            <a href="/subject/520001" class="title">ダンジョン飯 特別編</a></li>
+    </ul>
+</div>`;
+
+Deno.test("Bangumi related subjects keep only animation relations", async () => {
+    setTransport((url) => Promise.resolve(
+        url === "https://bgm.tv/subject/443106"
+            ? new Response(SUBJECT_HTML, { headers: { "Content-Type": "text/html" } })
+            : new Response("not recorded", { status: 404 })
+    ));
+    try {
+        const { subject, related } = await fetchBangumiRelated("443106", new AbortController().signal);
+        assertEquals([subject?.titleZh, subject?.directors, subject?.genres], ["迷宫饭", ["宫岛善博"], ["奇幻"]]);
+        assertEquals(related.map((item) => [item.sourceId, item.titleZh, item.titleOriginal]), [
+            ["513219", "迷宫饭 第二季", "ダンジョン飯 第2期"],
+            // Unlabelled entries belong to the group above them
+            ["520001", "ダンジョン飯 特別編", ""],
+        ]);
+        assertEquals(related[0].posterUrl, "https://lain.bgm.tv/pic/cover/l/cc/dd/513219.jpg");
+    } finally {
+        setTransport(null);
+    }
+});
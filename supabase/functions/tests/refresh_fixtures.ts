@@ -0,0 +1,233 @@
+/**
+ * Re-fetch the recorded provider responses and report selector drift.
+ *
+ *   deno run -A tests/refresh_fixtures.ts [--write] [case ...]
+ *
+ * Each case is searched live through the real providers while the responses
+ * are recorded. The report flags:
+ *   - probe selectors that matched the recorded page but match nothing live
+ *   - fields the golden output had that every live result now lacks
+ *   - providers that return nothing or fail
+ *   - requests that were added or dropped compared to the manifest
+ * With --write, the recordings replace the fixtures and the manifest is
+ * updated; regenerate the goldens afterwards (UPDATE_GOLDEN=1 deno test) and
+ * review both diffs. Exits with 1 when drift was found.
+ */
+import { MediaItem } from "../_shared/media.ts";
+import { outboundClient, setTransport } from "../_shared/providers/http.ts";
+import { providerRegistry } from "../_shared/providers/registry.ts";
+import {
+    FIXTURE_DIR,
+    FixtureCase,
+    FixtureResponse,
+    fixtureKey,
+    loadCases,
+    probeCounts,
+    readGolden,
+    searchProvider,
+} from "./replay.ts";
+
+// Values providers fill in when a field couldn't be parsed
+const PLACEHOLDERS = new Set<unknown>(["", "----", "未知", "未知日期", "未知标题", "暂无简介", "暂无制作信息", 0]);
+
+const CHECKED_FIELDS: (keyof MediaItem)[] = [
+    "titleZh",
+    "titleOriginal",
+    "year",
+    "releaseDate",
+    "duration",
+    "posterUrl",
+    "summary",
+    "staff",
+    "rating",
+    "genres",
+];
+
+interface Recording {
+    url: string;
+    provider: string;
+    body: string;
+    json: boolean;
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Run every provider of a case against the live sources, keeping each body
+ */
+async function recordCase(fixtureCase: FixtureCase, drift: string[]) {
+    const recordings: Recording[] = [];
+    const results = new Map<string, MediaItem[]>();
+    let provider = "";
+
+    setTransport(async (url, init, signal) => {
+        const response = await outboundClient.fetch(url, init, signal);
+        const body = await response.text();
+        const json = (response.headers.get("content-type") || "").includes("json");
+        if (response.ok) recordings.push({ url: fixtureKey(url), provider, body, json });
+        return new Response(body, { status: response.status, headers: response.headers });
+    });
+
+    try {
+        for (const id of fixtureCase.providers) {
+            provider = id;
+            const source = providerRegistry.get(id);
+            if (!source) {
+                drift.push(`${id}: unknown provider`);
+                continue;
+            }
+            try {
+                results.set(id, await searchProvider(source, fixtureCase.query, AbortSignal.timeout(source.timeoutMs * 2)));
+            } catch (e) {
+                drift.push(`${id}: search failed: ${e instanceof Error ? e.message : e}`);
+            }
+        }
+    } finally {
+        setTransport(null);
+    }
+
+    return { recordings, results };
+}
+
+// ============================================================================
+// Drift Checks
+// ============================================================================
+
+async function checkProbes(response: FixtureResponse, live: Recording, drift: string[]): Promise<void> {
+    if (!response.probes?.length) return;
+
+    const recorded = probeCounts(await Deno.readTextFile(new URL(response.file, FIXTURE_DIR)), response.probes);
+    const current = probeCounts(live.body, response.probes);
+    for (const selector of response.probes) {
+        const before = recorded[selector];
+        const after = current[selector];
+        if (before > 0 && after === 0) {
+            drift.push(`${response.file}: "${selector}" matched ${before}, now matches nothing`);
+        } else if (before !== after) {
+            console.log(`  ${response.file}: "${selector}" ${before} -> ${after}`);
+        }
+    }
+}
+
+function isFilled(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    return value !== undefined && value !== null && !PLACEHOLDERS.has(value);
+}
+
+async function checkOutput(name: string, provider: string, items: MediaItem[], drift: string[]): Promise<void> {
+    let golden: MediaItem[];
+    try {
+        golden = await readGolden(`${name}.${provider}`) as MediaItem[];
+    } catch {
+        console.log(`  ${provider}: no golden output to compare with`);
+        return;
+    }
+
+    if (items.length === 0) {
+        if (golden.length > 0) drift.push(`${provider}: no results (golden has ${golden.length})`);
+        return;
+    }
+
+    for (const field of CHECKED_FIELDS) {
+        const hadIt = golden.some((item) => isFilled(item[field]));
+        const hasIt = items.some((item) => isFilled(item[field]));
+        if (hadIt && !hasIt) drift.push(`${provider}: "${field}" is empty or a placeholder in every result`);
+    }
+}
+
+function checkRequests(fixtureCase: FixtureCase, recordings: Recording[], drift: string[]): void {
+    const recorded = new Set(fixtureCase.responses.map((r) => fixtureKey(r.url)));
+    const live = new Set(recordings.map((r) => r.url));
+
+    for (const url of live) {
+        if (!recorded.has(url)) drift.push(`new request: ${url}`);
+    }
+    for (const url of recorded) {
+        if (!live.has(url)) drift.push(`no longer requested: ${url}`);
+    }
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/**
+ * File name for a new recording: provider directory plus the URL's path
+ */
+function fixtureFile(recording: Recording): string {
+    const path = new URL(recording.url).pathname.replace(/^\/+|\/+$/g, "").replace(/[^\p{L}\p{N}_]+/gu, "-");
+    return `${recording.provider}/${path || "index"}.${recording.json ? "json" : "html"}`;
+}
+
+async function writeCase(fixtureCase: FixtureCase, recordings: Recording[]): Promise<FixtureCase> {
+    const existing = new Map(fixtureCase.responses.map((r) => [fixtureKey(r.url), r]));
+    const responses: FixtureResponse[] = [];
+
+    for (const recording of recordings) {
+        const response = existing.get(recording.url) ?? { url: recording.url, file: fixtureFile(recording) };
+        // Pretty-printed so refreshes produce readable diffs
+        const body = recording.json ? JSON.stringify(JSON.parse(recording.body), null, 2) + "\n" : recording.body;
+
+        const file = new URL(response.file, FIXTURE_DIR);
+        await Deno.mkdir(new URL(".", file), { recursive: true });
+        await Deno.writeTextFile(file, body);
+        responses.push(response);
+    }
+
+    return { ...fixtureCase, responses };
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main(args: string[]): Promise<number> {
+    const write = args.includes("--write");
+    const only = args.filter((arg) => !arg.startsWith("--"));
+
+    const cases = await loadCases();
+    let drifted = false;
+
+    const refreshed: FixtureCase[] = [];
+    for (const fixtureCase of cases) {
+        if (only.length && !only.includes(fixtureCase.name)) {
+            refreshed.push(fixtureCase);
+            continue;
+        }
+
+        console.log(`${fixtureCase.name} (${fixtureCase.query})`);
+        const drift: string[] = [];
+        const { recordings, results } = await recordCase(fixtureCase, drift);
+
+        checkRequests(fixtureCase, recordings, drift);
+        const live = new Map(recordings.map((r) => [r.url, r]));
+        for (const response of fixtureCase.responses) {
+            const recording = live.get(fixtureKey(response.url));
+            if (recording) await checkProbes(response, recording, drift);
+        }
+        for (const [provider, items] of results) {
+            await checkOutput(fixtureCase.name, provider, items, drift);
+        }
+
+        for (const line of drift) console.log(`  DRIFT ${line}`);
+        if (drift.length === 0) console.log("  no drift");
+        drifted ||= drift.length > 0;
+
+        // A failed provider recorded nothing; writing would drop its fixtures
+        const complete = results.size === fixtureCase.providers.length;
+        if (write && !complete) console.log("  not written: some providers failed");
+        refreshed.push(write && complete ? await writeCase(fixtureCase, recordings) : fixtureCase);
+    }
+
+    if (write) {
+        await Deno.writeTextFile(new URL("cases.json", FIXTURE_DIR), JSON.stringify({ cases: refreshed }, null, 2) + "\n");
+        console.log("Fixtures written; regenerate the goldens with UPDATE_GOLDEN=1 and review the diff");
+    }
+    return drifted ? 1 : 0;
+}
+
+if (import.meta.main) {
+    Deno.exit(await main(Deno.args));
+}
@@ -0,0 +1,86 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { MediaItem } from "../_shared/media.ts";
+import { bigramSimilarity, editDistance, editSimilarity, fuzzySimilarity } from "../_shared/normalize/similarity.ts";
+import { calculateRelevanceScore, filterRelevantResults } from "../_shared/relevance.ts";
+import { media } from "./factories.ts";
+
+const SPIRITED_AWAY = media("tmdb", "129", {
+    titleZh: "千与千寻",
+    titleOriginal: "Spirited Away",
+    directors: ["Hayao Miyazaki"],
+    actors: ["柊瑠美"],
+});
+
+Deno.test("edit distance counts code points, so CJK characters are one edit", () => {
+    assertEquals(editDistance("kitten", "sitting"), 3);
+    assertEquals(editDistance("千与千寻", "千与千寻神隐"), 2);
+    assertEquals(editDistance("", "abc"), 3);
+    assertEquals(editSimilarity("abcd", "abce"), 0.75);
+    assertEquals(editSimilarity("", ""), 0);
+});
+
+Deno.test("bigram similarity tolerates reordered words where edit distance doesn't", () => {
+    assertEquals(bigramSimilarity("night", "nacht"), 0.25);
+    assertEquals(bigramSimilarity("abcdef", "defabc"), 0.8);
+    assertEquals(editSimilarity("abcdef", "defabc"), 0);
+    assertEquals(fuzzySimilarity("abcdef", "defabc"), 0.8);
+    assertEquals(fuzzySimilarity("same", "same"), 1);
+    assertEquals(fuzzySimilarity("", "same"), 0);
+});
+
+Deno.test("title matches score exact > prefix > partial > contains > fuzzy", () => {
+    const cases: [string, number, string][] = [
+        ["千與千尋", 100, "exact"],
+        ["千与", 80, "prefix"],
+        ["千与千寻 电影", 70, "partial"],
+        ["千寻", 60, "contains"],
+        ["spirited awya", 41, "fuzzy"],
+    ];
+    for (const [query, title, titleMatch] of cases) {
+        const relevance = calculateRelevanceScore(SPIRITED_AWAY, query);
+        assertEquals([relevance.title, relevance.titleMatch], [title, titleMatch], query);
+    }
+
+    const fuzzy = calculateRelevanceScore(SPIRITED_AWAY, "spirited awya");
+    assertEquals(fuzzy.titleField, "titleOriginal");
+    assertEquals(fuzzy.similarity, 0.83);
+});
+
+Deno.test("fuzzy title matches below half similarity score nothing", () => {
+    const relevance = calculateRelevanceScore(SPIRITED_AWAY, "xyz");
+    assertEquals([relevance.title, relevance.titleMatch, relevance.titleField], [0, "none", null]);
+    // Only the TMDb source weight is left
+    assertEquals(relevance.total, 5);
+});
+
+Deno.test("director and actor names count, typos included", () => {
+    const director = calculateRelevanceScore(SPIRITED_AWAY, "hayao miyazaky");
+    assertEquals([director.people, director.matchedPeople], [40, ["Hayao Miyazaki"]]);
+    assertEquals(director.titleMatch, "none");
+
+    const actor = calculateRelevanceScore(SPIRITED_AWAY, "柊瑠美");
+    assertEquals([actor.people, actor.matchedPeople], [25, ["柊瑠美"]]);
+});
+
+Deno.test("the total adds merged sources, a rating and the source weight", () => {
+    const merged = { ...SPIRITED_AWAY, matchCount: 3, ratingDouban: 9.4 };
+    const relevance = calculateRelevanceScore(merged, "千与千寻");
+    assertEquals([relevance.multiSource, relevance.rating, relevance.source], [60, 10, 5]);
+    assertEquals(relevance.total, 100 + 60 + 10 + 5);
+});
+
+Deno.test("filtering drops placeholder and irrelevant items and attaches the breakdown on debug", () => {
+    const withPoster = (item: MediaItem) => ({ ...item, posterUrl: "https://example.com/p.jpg" });
+    const results = [
+        withPoster(media("bgm", "1", { titleZh: "千与千寻 制作特辑" })),
+        withPoster(SPIRITED_AWAY),
+        withPoster(media("bgm", "2", { titleZh: "龙猫" })),
+        media("tmdb", "3", { titleZh: "千与千寻" }),
+        withPoster(media("tmdb", "4", { titleZh: "未知标题" })),
+    ];
+
+    const ranked = filterRelevantResults(results, "千与千寻", true);
+    assertEquals(ranked.map((item) => item.sourceId), ["129", "1"]);
+    assertEquals(ranked[0].relevance?.total, 105);
+    assertEquals(filterRelevantResults(results, "千与千寻")[0].relevance, undefined);
+});
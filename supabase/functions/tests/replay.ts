@@ -0,0 +1,126 @@
+import * as cheerio from "https://esm.sh/cheerio@1.0.0-rc.12";
+import { MediaItem } from "../_shared/media.ts";
+import { Transport } from "../_shared/providers/http.ts";
+import { MediaProvider } from "../_shared/providers/types.ts";
+
+// ============================================================================
+// Fixture Cases
+// ============================================================================
+
+export const FIXTURE_DIR = new URL("./fixtures/providers/", import.meta.url);
+export const GOLDEN_DIR = new URL("./fixtures/golden/", import.meta.url);
+
+export interface FixtureResponse {
+    // Readable (percent-decoded) form of the URL the provider requests
+    url: string;
+    // Path of the recorded body, relative to FIXTURE_DIR
+    file: string;
+    // Selectors the parser depends on; the refresh tool compares their match
+    // counts between the recorded and the live page
+    probes?: string[];
+}
+
+export interface FixtureCase {
+    name: string;
+    query: string;
+    // Provider ids run for this case, in registry order
+    providers: string[];
+    responses: FixtureResponse[];
+}
+
+export async function loadCases(): Promise<FixtureCase[]> {
+    const manifest = JSON.parse(await Deno.readTextFile(new URL("cases.json", FIXTURE_DIR)));
+    return manifest.cases;
+}
+
+/**
+ * Percent-decoded URL, so manifests can list CJK queries as written
+ */
+export function fixtureKey(url: string): string {
+    try {
+        return decodeURIComponent(url);
+    } catch {
+        return url;
+    }
+}
+
+function contentType(file: string): string {
+    return file.endsWith(".json") ? "application/json; charset=utf-8" : "text/html; charset=utf-8";
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+export interface Replay {
+    transport: Transport;
+    // URLs requested without a recorded response; each got a 404
+    missed: string[];
+}
+
+/**
+ * Transport answering from a case's recorded responses. Unrecorded URLs get a
+ * 404 and are collected, since providers swallow some failures (detail pages).
+ */
+export function replayTransport(fixtureCase: FixtureCase): Replay {
+    const files = new Map(fixtureCase.responses.map((r) => [fixtureKey(r.url), r.file]));
+    const missed: string[] = [];
+
+    const transport: Transport = async (url) => {
+        const file = files.get(fixtureKey(url));
+        if (!file) {
+            missed.push(fixtureKey(url));
+            return new Response("not recorded", { status: 404 });
+        }
+        return new Response(await Deno.readTextFile(new URL(file, FIXTURE_DIR)), {
+            headers: { "Content-Type": contentType(file) },
+        });
+    };
+
+    return { transport, missed };
+}
+
+/**
+ * First page of a provider's results for the case query
+ */
+export async function searchProvider(
+    provider: MediaProvider,
+    query: string,
+    signal = new AbortController().signal
+): Promise<MediaItem[]> {
+    const page = await provider.search(query, { signal, searchType: "all" });
+    return page.items;
+}
+
+// ============================================================================
+// Golden Files
+// ============================================================================
+
+/**
+ * What gets compared: the JSON the API would send, so undefined fields drop out
+ */
+export function snapshot(value: unknown): unknown {
+    return JSON.parse(JSON.stringify(value));
+}
+
+export function goldenUrl(name: string): URL {
+    return new URL(`${name}.json`, GOLDEN_DIR);
+}
+
+export async function readGolden(name: string): Promise<unknown> {
+    return JSON.parse(await Deno.readTextFile(goldenUrl(name)));
+}
+
+export async function writeGolden(name: string, value: unknown): Promise<void> {
+    await Deno.mkdir(GOLDEN_DIR, { recursive: true });
+    await Deno.writeTextFile(goldenUrl(name), JSON.stringify(snapshot(value), null, 2) + "\n");
+}
+
+// ============================================================================
+// Selector Probes
+// ============================================================================
+
+export function probeCounts(html: string, probes: string[]): Record<string, number> {
+    const $ = cheerio.load(html);
+    return Object.fromEntries(probes.map((selector) => [selector, $(selector).length]));
+}
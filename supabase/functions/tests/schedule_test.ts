@@ -0,0 +1,139 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createMediaItem } from "../_shared/media.ts";
+import { fetchBangumiCalendar, loadBangumiCalendarDetail } from "../_shared/providers/bangumi.ts";
+import { setTransport } from "../_shared/providers/http.ts";
+import { buildSchedule, ScheduleSource, weekStartOf } from "../_shared/schedule.ts";
+
+const CALENDAR_HTML = `
+<div id="colunmSingle"><div class="BgmCalendar"><ul class="large clearit">
+<li class="week"><dl><dt class="Wed"><h3>Wed</h3></dt><dd><ul class="coverList clearit">
+    <li style="background:url('//lain.bgm.tv/pic/cover/c/2a/1f/464376_d7pgp.jpg')" class="odd">
+        <div class="info"><p><a href="/subject/464376" class="nav">葬送的芙莉莲</a></p><p><small><em>葬送のフリーレン</em></small></p></div>
+    </li>
+</ul></dd></dl></li>
+<li class="week"><dl><dt class="Sat"><h3>Sat</h3></dt><dd><ul class="coverList clearit">
+    <li style="background:url('//lain.bgm.tv/pic/cover/c/5b/09/443106_8Ks3p.jpg')" class="even">
+        <div class="info"><p><a href="/subject/443106" class="nav">迷宫饭</a></p><p><small><em>ダンジョン飯</em></small></p></div>
+    </li>
+</ul></dd></dl></li>
+</ul></div></div>`;
+
+const SUBJECT_HTML = `
+<ul id="infobox">
+    <li><span class="tip">话数: </span>24</li>
+    <li><span class="tip">放送开始: </span>2026年10月3日</li>
+</ul>
+<div class="global_score"><span class="number">8.1</span></div>
+<div id="subject_summary">地下城深处，一行人靠料理魔物维生。</div>
+<ul class="prg_list">
+    <li><a href="/ep/1" class="load-epinfo epBtnAir" title="ep.1 炖菜" rel="#prginfo_1">01</a></li>
+    <li><a href="/ep/2" class="load-epinfo epBtnAir" title="ep.2 烤肉" rel="#prginfo_2">02</a></li>
+    <li class="subtitle"><span>SP</span></li>
+    <li><a href="/ep/9" class="load-epinfo epBtnNA" title="sp.1 特别篇" rel="#prginfo_9">01</a></li>
+</ul>
+<div id="subject_prg_content">
+    <div id="prginfo_1" class="prg_popup"><span class="tip">首播:2026-10-04<br />时长:00:24:00</span></div>
+    <div id="prginfo_2" class="prg_popup"><span class="tip">首播:2026-10-11<br />时长:00:24:00</span></div>
+    <div id="prginfo_9" class="prg_popup"><span class="tip">首播:2026-12-27</span></div>
+</div>`;
+
+function replayPages(pages: Record<string, string>) {
+    setTransport((url) => Promise.resolve(
+        url in pages
+            ? new Response(pages[url], { headers: { "Content-Type": "text/html" } })
+            : new Response("not recorded", { status: 404 })
+    ));
+}
+
+function media(sourceId: string, titleZh: string) {
+    return createMediaItem({
+        sourceType: "bgm",
+        sourceId,
+        sourceUrl: `https://bgm.tv/subject/${sourceId}`,
+        mediaType: "anime",
+        titleZh,
+    });
+}
+
+// Week of Monday 2026-10-19, UTC+8
+const WEEK_START = "2026-10-18T16:00:00.000Z";
+
+const SOURCE: ScheduleSource = {
+    weekStart: WEEK_START,
+    complete: true,
+    entries: [
+        {
+            // Saturdays 23:30 UTC+8, i.e. Sunday 00:30 in Japan
+            weekday: "Sat",
+            media: media("443106", "迷宫饭"),
+            broadcast: "2026-10-03T15:30:00.000Z",
+            episodes: [
+                { number: 3, title: "", airDate: "2026-10-18" },
+                { number: 4, title: "红龙", airDate: "2026-10-25" },
+            ],
+        },
+        {
+            weekday: "Wed",
+            media: media("464376", "葬送的芙莉莲"),
+            broadcast: null,
+            episodes: [
+                { number: 7, title: "", airDate: "2026-10-14" },
+                { number: 8, title: "魔法使考试", airDate: "2026-10-21" },
+            ],
+        },
+    ],
+};
+
+Deno.test("the week starts on Monday in UTC+8", () => {
+    // Wednesday 11:00 UTC+8
+    assertEquals(new Date(weekStartOf(Date.parse("2026-10-21T03:00:00Z"))).toISOString(), WEEK_START);
+    // Sunday 23:30 UTC+8 still belongs to the same week
+    assertEquals(new Date(weekStartOf(Date.parse("2026-10-25T15:30:00Z"))).toISOString(), WEEK_START);
+});
+
+Deno.test("timed shows move to the weekday they air on locally", () => {
+    const shanghai = buildSchedule(SOURCE, "Asia/Shanghai");
+    assertEquals(shanghai.Sat.map((entry) => [entry.media.sourceId, entry.airTime, entry.episode]), [["443106", "23:30", 4]]);
+    assertEquals(shanghai.Sat[0].airsAt, "2026-10-24T15:30:00.000Z");
+    assertEquals(shanghai.Sat[0].episodeTitle, "红龙");
+
+    const tokyo = buildSchedule(SOURCE, "Asia/Tokyo");
+    assertEquals(tokyo.Sat, []);
+    assertEquals(tokyo.Sun.map((entry) => [entry.airTime, entry.episode]), [["00:30", 4]]);
+
+    const newYork = buildSchedule(SOURCE, "America/New_York");
+    assertEquals(newYork.Sat.map((entry) => entry.airTime), ["11:30"]);
+});
+
+Deno.test("untimed shows keep bgm.tv's weekday and this week's episode", () => {
+    const newYork = buildSchedule(SOURCE, "America/New_York");
+    assertEquals(newYork.Wed.map((entry) => [entry.media.sourceId, entry.airTime, entry.episode]), [["464376", null, 8]]);
+});
+
+Deno.test("calendar entries are parsed and filled in from subject pages", async () => {
+    replayPages({
+        "https://bgm.tv/calendar": CALENDAR_HTML,
+        "https://bgm.tv/subject/443106": SUBJECT_HTML,
+    });
+    try {
+        const signal = new AbortController().signal;
+        const calendar = await fetchBangumiCalendar(signal);
+        assertEquals(calendar.map((entry) => [entry.weekday, entry.media.sourceId, entry.media.titleZh, entry.media.titleOriginal]), [
+            ["Wed", "464376", "葬送的芙莉莲", "葬送のフリーレン"],
+            ["Sat", "443106", "迷宫饭", "ダンジョン飯"],
+        ]);
+        assertEquals(calendar[1].media.posterUrl, "https://lain.bgm.tv/pic/cover/l/5b/09/443106_8Ks3p.jpg");
+
+        const entry = await loadBangumiCalendarDetail(calendar[1], signal);
+        assertEquals(entry.episodes, [
+            { number: 1, title: "炖菜", airDate: "2026-10-04" },
+            { number: 2, title: "烤肉", airDate: "2026-10-11" },
+        ]);
+        assertEquals(
+            [entry.media.summary, entry.media.duration, entry.media.releaseDate, entry.media.year, entry.media.rating],
+            ["地下城深处，一行人靠料理魔物维生。", "24集", "2026-10-03", "2026", 8.1]
+        );
+    } finally {
+        setTransport(null);
+    }
+});
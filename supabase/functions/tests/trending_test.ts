@@ -0,0 +1,40 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { rankTrending } from "../_shared/trending.ts";
+import { media } from "./factories.ts";
+
+const DUNE = { titleZh: "沙丘2", titleOriginal: "Dune: Part Two", year: "2024" };
+
+Deno.test("items found on several sources outrank single-source leaders", () => {
+    const ranked = rankTrending([
+        {
+            source: "tmdb",
+            items: [
+                media("tmdb", "1", { titleZh: "死侍与金刚狼", titleOriginal: "Deadpool & Wolverine", year: "2024" }),
+                media("tmdb", "2", DUNE),
+            ],
+        },
+        {
+            source: "maoyan",
+            items: [
+                media("maoyan", "10", { titleZh: "抓娃娃", year: "2024" }),
+                media("maoyan", "11", { ...DUNE, titleOriginal: "" }),
+            ],
+        },
+    ]);
+
+    assertEquals(ranked.map((item) => [item.titleZh, item.matchCount, item.trendingScore]), [
+        // 0.5 + 0.5 by rank, plus 0.5 for the second source
+        ["沙丘2", 2, 1.5],
+        ["死侍与金刚狼", 1, 1],
+        ["抓娃娃", 1, 1],
+    ]);
+    assertEquals(ranked[0].sources?.map((source) => source.sourceType), ["tmdb", "maoyan"]);
+});
+
+Deno.test("ties go to the higher rating", () => {
+    const ranked = rankTrending([
+        { source: "tmdb", items: [media("tmdb", "1", { titleZh: "甲", year: "2020", rating: 6 })] },
+        { source: "bgm", items: [media("bgm", "2", { titleZh: "乙", year: "2021", rating: 8, mediaType: "anime" })] },
+    ]);
+    assertEquals(ranked.map((item) => item.titleZh), ["乙", "甲"]);
+});
@@ -1,11 +1,218 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { AuthContext, withAuth } from "../_shared/auth.ts"
+import { CachePolicy, ResponseCache } from "../_shared/cache.ts"
+import { AppError, errorResponse } from "../_shared/errors.ts"
+import { outboundClient, withTimeout } from "../_shared/providers/http.ts"
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-serve(async (req: Request) => {
+const TMDB_BASE_URL = 'https://api.themoviedb.org/3' // We can primarily use v3 endpoints but auth with v4 token
+
+const TMDB_TIMEOUT_MS = 8000
+
+const proxyCache = new ResponseCache()
+
+const PROXY_CACHE_POLICY: CachePolicy = { ttl: 6 * 3600, staleWhileRevalidate: 24 * 3600 }
+
+// Stable key: path plus query parameters in sorted order
+function proxyCacheKey(path: string, query: Record<string, string>): string {
+    const params = Object.keys(query)
+        .sort()
+        .map((key) => `${key}=${query[key]}`)
+        .join('&')
+    return `tmdb-proxy:${path}?${params}`
+}
+
+// ============================================================================
+// Route Allow-List
+// ============================================================================
+
+type ParamCheck = (value: string) => boolean
+
+const matches = (pattern: RegExp): ParamCheck => (value) => pattern.test(value)
+const oneOf = (...values: string[]): ParamCheck => (value) => values.includes(value)
+const listOf = (...values: string[]): ParamCheck => (value) => value.split(',').every((part) => values.includes(part))
+
+const integer = matches(/^\d{1,9}$/)
+const pageNumber: ParamCheck = (value) => integer(value) && Number(value) >= 1 && Number(value) <= 500
+const decimal = matches(/^\d{1,5}(\.\d+)?$/)
+const boolean = oneOf('true', 'false')
+const year = matches(/^\d{4}$/)
+const date = matches(/^\d{4}-\d{2}-\d{2}$/)
+const languageCode = matches(/^[a-z]{2}(-[A-Z]{2})?$/)
+const regionCode = matches(/^[A-Z]{2}$/)
+// with_genres=16,18 (and) or 16|18 (or)
+const idList = matches(/^\d+([,|]\d+)*$/)
+const sortOrder = matches(/^[a-z_.]+\.(asc|desc)$/)
+const text: ParamCheck = (value) => value.trim().length > 0 && value.length <= 200
+
+const DETAIL_APPENDS = ['credits', 'external_ids', 'videos', 'images', 'keywords', 'recommendations', 'similar']
+
+const COMMON_PARAMS: Record<string, ParamCheck> = {
+    language: languageCode,
+}
+
+const LIST_PARAMS: Record<string, ParamCheck> = {
+    page: pageNumber,
+    region: regionCode,
+}
+
+const DISCOVER_PARAMS: Record<string, ParamCheck> = {
+    ...LIST_PARAMS,
+    sort_by: sortOrder,
+    include_adult: boolean,
+    'vote_count.gte': integer,
+    'vote_average.gte': decimal,
+    'vote_average.lte': decimal,
+    with_genres: idList,
+    without_genres: idList,
+    with_original_language: matches(/^[a-z]{2}$/),
+    with_origin_country: regionCode,
+}
+
+interface ProxyRoute {
+    // Anchored pattern over the whole path
+    pattern: RegExp
+    params: Record<string, ParamCheck>
+    required?: string[]
+}
+
+// The only TMDb calls the app makes; everything else is refused
+const ROUTES: ProxyRoute[] = [
+    {
+        pattern: /^\/movie\/top_rated$/,
+        params: LIST_PARAMS,
+    },
+    {
+        pattern: /^\/tv\/top_rated$/,
+        params: LIST_PARAMS,
+    },
+    {
+        pattern: /^\/movie\/\d{1,9}$/,
+        params: { append_to_response: listOf(...DETAIL_APPENDS, 'release_dates') },
+    },
+    {
+        pattern: /^\/tv\/\d{1,9}$/,
+        params: { append_to_response: listOf(...DETAIL_APPENDS, 'aggregate_credits', 'content_ratings') },
+    },
+    {
+        pattern: /^\/discover\/movie$/,
+        params: {
+            ...DISCOVER_PARAMS,
+            primary_release_year: year,
+            'primary_release_date.gte': date,
+            'primary_release_date.lte': date,
+        },
+    },
+    {
+        pattern: /^\/discover\/tv$/,
+        params: {
+            ...DISCOVER_PARAMS,
+            first_air_date_year: year,
+            'first_air_date.gte': date,
+            'first_air_date.lte': date,
+        },
+    },
+    {
+        pattern: /^\/search\/(multi|movie|tv|person|collection|keyword|company)$/,
+        params: {
+            ...LIST_PARAMS,
+            query: text,
+            include_adult: boolean,
+            year: year,
+            primary_release_year: year,
+            first_air_date_year: year,
+        },
+        required: ['query'],
+    },
+]
+
+/**
+ * Check a request against the allow-list and return the query to forward,
+ * with `language=zh-CN` filled in when the caller didn't pick one.
+ * Routes and methods outside the allow-list are forbidden (403), bad
+ * parameters on an allowed route a bad_request (400).
+ */
+function validateProxyRequest(path: unknown, query: unknown, method: unknown): Record<string, string> {
+    if (typeof method !== 'string' || method.toUpperCase() !== 'GET') {
+        throw new AppError('forbidden', `Method ${String(method)} is not allowed, the proxy is read-only`)
+    }
+    if (typeof path !== 'string' || !path) {
+        throw new AppError('bad_request', 'path is required')
+    }
+
+    const route = ROUTES.find((candidate) => candidate.pattern.test(path))
+    if (!route) {
+        throw new AppError('forbidden', `Path ${path} is not allowed`)
+    }
+
+    if (query !== undefined && query !== null && (typeof query !== 'object' || Array.isArray(query))) {
+        throw new AppError('bad_request', 'query must be an object of parameters')
+    }
+
+    const params: Record<string, string> = {}
+    for (const [key, raw] of Object.entries((query || {}) as Record<string, unknown>)) {
+        if (raw === undefined || raw === null) continue
+        if (!['string', 'number', 'boolean'].includes(typeof raw)) {
+            throw new AppError('bad_request', `Parameter ${key} must be a string, number or boolean`)
+        }
+
+        const check = COMMON_PARAMS[key] || route.params[key]
+        if (!check) {
+            throw new AppError('bad_request', `Parameter ${key} is not allowed for ${path}`)
+        }
+        const value = String(raw)
+        if (!check(value)) {
+            throw new AppError('bad_request', `Invalid value for ${key}: ${value}`)
+        }
+        params[key] = value
+    }
+
+    for (const key of route.required || []) {
+        if (!params[key]) {
+            throw new AppError('bad_request', `Parameter ${key} is required for ${path}`)
+        }
+    }
+
+    if (!params.language) params.language = 'zh-CN'
+    return params
+}
+
+// ============================================================================
+// Upstream Responses
+// ============================================================================
+
+/**
+ * TMDb's answer as passed to the client. Client errors such as 404 are
+ * passed through; a rejected token is a config_error, and 429/5xx (after the
+ * outbound client's retries) or a body that isn't JSON an upstream_error.
+ */
+async function readTmdbResponse(response: Response): Promise<{ status: number; data: unknown }> {
+    if (response.status === 401) {
+        await response.body?.cancel()
+        throw new AppError('config_error', 'TMDb rejected TMDB_ACCESS_TOKEN')
+    }
+    if (response.status === 429 || response.status >= 500) {
+        await response.body?.cancel()
+        throw new AppError('upstream_error', `TMDb responded with ${response.status}`, response.status)
+    }
+
+    const text = await response.text()
+    try {
+        return { status: response.status, data: JSON.parse(text) }
+    } catch (_) {
+        throw new AppError('upstream_error', `TMDb returned a non-JSON response (${response.status})`, response.status)
+    }
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(withAuth(async (req: Request, { requestId }: AuthContext) => {
     // Handle CORS preflight request
     if (req.method === 'OPTIONS') {
         return new Response('ok', { headers: corsHeaders })
@@ -14,47 +221,59 @@ serve(async (req: Request) => {
     try {
         const { path, query, method = 'GET', body } = await req.json()
 
-        // TMDb API Base URL
-        const TMDB_BASE_URL = 'https://api.themoviedb.org/3' // We can primarily use v3 endpoints but auth with v4 token
-
-        // Construct the full URL
-        let targetUrl = `${TMDB_BASE_URL}${path}`
-
-        // Append query parameters
-        if (query) {
-            const searchParams = new URLSearchParams(query)
-            targetUrl += `?${searchParams.toString()}`
+        if (body !== undefined && body !== null) {
+            throw new AppError('forbidden', 'Request bodies are not forwarded, the proxy is read-only')
         }
-
-        console.log(`Forwarding request to: ${targetUrl}`)
+        const params = validateProxyRequest(path, query, method)
+        const cacheKey = proxyCacheKey(path, params)
+        const targetUrl = `${TMDB_BASE_URL}${path}?${new URLSearchParams(params)}`
 
         const tmdbToken = Deno.env.get('TMDB_ACCESS_TOKEN')
         if (!tmdbToken) {
-            throw new Error('TMDB_ACCESS_TOKEN is not set in Edge Function secrets.')
-        }
-
-        // Make request to TMDb
-        const response = await fetch(targetUrl, {
-            method: method,
-            headers: {
-                'Authorization': `Bearer ${tmdbToken}`,
-                'Content-Type': 'application/json',
-                'Accept': 'application/json',
-            },
-            body: body ? JSON.stringify(body) : undefined,
-        })
+            throw new AppError('config_error', 'TMDB_ACCESS_TOKEN is not set in Edge Function secrets.')
+        }
 
-        const data = await response.json()
+        const forward = () => withTimeout('TMDb', TMDB_TIMEOUT_MS, async (signal) => {
+            console.log(`[${requestId}] Forwarding request to: ${targetUrl}`)
 
-        return new Response(JSON.stringify(data), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            status: response.status,
+            // Make request to TMDb
+            const response = await outboundClient.fetch(targetUrl, {
+                method: 'GET',
+                headers: {
+                    'Authorization': `Bearer ${tmdbToken}`,
+                    'Accept': 'application/json',
+                },
+            }, signal)
+
+            return await readTmdbResponse(response)
         })
 
-    } catch (error: any) {
-        return new Response(JSON.stringify({ error: error.message }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            status: 400,
+        const cached = await proxyCache.lookup<{ status: number; data: unknown }>(cacheKey)
+        if (cached) {
+            if (cached.status === 'STALE') {
+                proxyCache.revalidate(cacheKey, PROXY_CACHE_POLICY, async () => {
+                    const fresh = await forward()
+                    return fresh.status < 300 ? fresh : undefined
+                })
+            }
+            return new Response(JSON.stringify(cached.value.data), {
+                headers: { ...corsHeaders, 'Content-Type': 'application/json', 'X-Cache': cached.status },
+                status: cached.value.status,
+            })
+        }
+
+        const result = await forward()
+
+        if (result.status < 300) {
+            await proxyCache.store(cacheKey, result, PROXY_CACHE_POLICY)
+        }
+
+        return new Response(JSON.stringify(result.data), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json', 'X-Cache': 'MISS' },
+            status: result.status,
         })
+
+    } catch (error) {
+        return errorResponse(error, requestId, corsHeaders)
     }
-})
+}, { headers: corsHeaders }))
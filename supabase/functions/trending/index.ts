@@ -0,0 +1,218 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AuthContext, withAuth } from "../_shared/auth.ts";
+import { CachePolicy, CacheStatus, combineCacheStatus, ResponseCache } from "../_shared/cache.ts";
+import { AppError, errorResponse } from "../_shared/errors.ts";
+import { MediaItem } from "../_shared/media.ts";
+import { bangumiProvider, fetchBangumiTrends } from "../_shared/providers/bangumi.ts";
+import { describeProviderError, ProviderStatus, withTimeout } from "../_shared/providers/http.ts";
+import { fetchMaoyanListing, MAOYAN_DEFAULT_CITY_ID, maoyanProvider } from "../_shared/providers/maoyan.ts";
+import { fetchTmdbTrending, TmdbTrendingWindow, tmdbProvider } from "../_shared/providers/tmdb.ts";
+import { MediaProvider, SEARCH_TYPES, SearchType } from "../_shared/providers/types.ts";
+import { rankTrending, TrendingItem } from "../_shared/trending.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+        "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+const WINDOWS: TmdbTrendingWindow[] = ["day", "week"];
+
+interface TrendingRequest {
+    // Media type to list (default all); selects the sources like search-media
+    type?: SearchType;
+    // TMDb's trending window (default week). Bangumi and Maoyan only rank
+    // what is popular now, so their lists don't change with it.
+    window?: TmdbTrendingWindow;
+}
+
+interface ProviderReport {
+    status: ProviderStatus;
+    latencyMs: number;
+    count: number;
+    httpStatus?: number;
+    error?: string;
+}
+
+interface TrendingResponse {
+    type: SearchType;
+    window: TmdbTrendingWindow;
+    items: TrendingItem[];
+    providers: Record<string, ProviderReport>;
+}
+
+function validateTrendingRequest(body: TrendingRequest): { type: SearchType; window: TmdbTrendingWindow } {
+    const type = body.type ?? "all";
+    if (!SEARCH_TYPES.includes(type)) {
+        throw new AppError("bad_request", `type must be one of: ${SEARCH_TYPES.join(", ")}`);
+    }
+
+    const window = body.window ?? "week";
+    if (!WINDOWS.includes(window)) {
+        throw new AppError("bad_request", `window must be one of: ${WINDOWS.join(", ")}`);
+    }
+
+    return { type, window };
+}
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+interface TrendingSource {
+    provider: MediaProvider;
+    // Part of the cache key; requests that get the same list share it
+    cacheKey(type: SearchType, window: TmdbTrendingWindow): string;
+    fetch(type: SearchType, window: TmdbTrendingWindow, signal: AbortSignal): Promise<MediaItem[]>;
+}
+
+// Each list is one request, except Maoyan's, which fills films in from their
+// detail pages within its own budget
+const SOURCE_TIMEOUT_MS = 12000;
+
+const TRENDING_SOURCES: TrendingSource[] = [
+    {
+        provider: tmdbProvider,
+        cacheKey: (type, window) => `${type}:${window}`,
+        // Not selected for anime, which TMDb doesn't list as a type of its own
+        fetch: (type, window, signal) => fetchTmdbTrending(type as "all" | "movie" | "tv", window, signal),
+    },
+    {
+        provider: bangumiProvider,
+        cacheKey: () => "anime",
+        fetch: (_type, _window, signal) => fetchBangumiTrends(signal),
+    },
+    {
+        // Maoyan's hot list is the films now in cinemas, in its order of heat
+        provider: maoyanProvider,
+        cacheKey: () => "showing",
+        fetch: (_type, _window, signal) => fetchMaoyanListing("showing", MAOYAN_DEFAULT_CITY_ID, signal),
+    },
+];
+
+/**
+ * Sources for a type, like ProviderRegistry.forSearchType
+ */
+function sourcesFor(type: SearchType): TrendingSource[] {
+    if (type === "all") return TRENDING_SOURCES;
+    return TRENDING_SOURCES.filter(({ provider }) => provider.mediaTypes.includes(type));
+}
+
+interface SourceOutcome {
+    items: MediaItem[];
+    report: ProviderReport;
+}
+
+/**
+ * Never throws: failures are reported through the outcome's status
+ */
+async function loadSource(source: TrendingSource, type: SearchType, window: TmdbTrendingWindow): Promise<SourceOutcome> {
+    const name = source.provider.id;
+    const startedAt = Date.now();
+
+    try {
+        const items = await withTimeout(name, SOURCE_TIMEOUT_MS, (signal) => source.fetch(type, window, signal));
+        return { items, report: { status: "ok", latencyMs: Date.now() - startedAt, count: items.length } };
+    } catch (e) {
+        console.error(`${name} trending error:`, e);
+        return { items: [], report: { ...describeProviderError(e), latencyMs: Date.now() - startedAt, count: 0 } };
+    }
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+const trendingCache = new ResponseCache();
+
+// Trending lists move within the day; TMDb's daily list is the fastest
+const TRENDING_CACHE_POLICY: CachePolicy = { ttl: 3600, staleWhileRevalidate: 6 * 3600 };
+
+function trendingCacheKey(source: TrendingSource, type: SearchType, window: TmdbTrendingWindow): string {
+    return `trending:${source.provider.id}:${source.cacheKey(type, window)}`;
+}
+
+/**
+ * One source's list from the cache or upstream. Stale entries are served
+ * immediately and refreshed in the background; only "ok" lists are stored.
+ */
+async function cachedSource(
+    source: TrendingSource,
+    type: SearchType,
+    window: TmdbTrendingWindow
+): Promise<{ outcome: SourceOutcome; status: CacheStatus }> {
+    const key = trendingCacheKey(source, type, window);
+    const load = () => loadSource(source, type, window);
+
+    const cached = await trendingCache.lookup<MediaItem[]>(key);
+    if (cached) {
+        if (cached.status === "STALE") {
+            trendingCache.revalidate(key, TRENDING_CACHE_POLICY, async () => {
+                const fresh = await load();
+                return fresh.report.status === "ok" ? fresh.items : undefined;
+            });
+        }
+        return {
+            outcome: { items: cached.value, report: { status: "ok", latencyMs: 0, count: cached.value.length } },
+            status: cached.status,
+        };
+    }
+
+    const outcome = await load();
+    if (outcome.report.status === "ok") {
+        await trendingCache.store(key, outcome.items, TRENDING_CACHE_POLICY);
+    }
+    return { outcome, status: "MISS" };
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(withAuth(async (req: Request, { requestId }: AuthContext) => {
+    // Handle CORS preflight
+    if (req.method === "OPTIONS") {
+        return new Response("ok", { headers: corsHeaders });
+    }
+
+    try {
+        // functions.invoke may send no body; every field is optional
+        const text = await req.text();
+        const body: TrendingRequest = text.trim() ? JSON.parse(text) : {};
+        const { type, window } = validateTrendingRequest(body);
+
+        const sources = sourcesFor(type);
+        const outcomes = await Promise.all(sources.map((source) => cachedSource(source, type, window)));
+
+        const providers: Record<string, ProviderReport> = {};
+        sources.forEach(({ provider }, i) => {
+            providers[provider.id] = outcomes[i].outcome.report;
+        });
+
+        const items = rankTrending(sources.map(({ provider }, i) => ({
+            source: provider.id,
+            items: outcomes[i].outcome.items,
+        })));
+
+        const response: TrendingResponse = { type, window, items, providers };
+
+        console.log(
+            `Trending ${type}/${window} - ${items.length} items from ${sources.map(({ provider }) => `${provider.id}: ${providers[provider.id].count}`).join(", ")}`
+        );
+
+        return new Response(JSON.stringify(response), {
+            headers: {
+                ...corsHeaders,
+                "Content-Type": "application/json",
+                "X-Cache": combineCacheStatus(outcomes.map(({ status }) => status)),
+            },
+            status: 200,
+        });
+    } catch (error) {
+        return errorResponse(error, requestId, corsHeaders);
+    }
+}, { headers: corsHeaders }));
@@ -0,0 +1,13 @@
+-- Response cache shared by the search-media and tmdb-proxy edge functions.
+-- Only the service role reads or writes it, so RLS is enabled without policies.
+create table if not exists public.edge_cache (
+    key text primary key,
+    value jsonb not null,
+    stored_at timestamptz not null default now(),
+    fresh_until timestamptz not null,
+    stale_until timestamptz not null
+);
+
+create index if not exists edge_cache_stale_until_idx on public.edge_cache (stale_until);
+
+alter table public.edge_cache enable row level security;
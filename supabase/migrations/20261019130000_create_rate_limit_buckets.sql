@@ -0,0 +1,49 @@
+-- Token buckets for the edge functions' per-user and per-IP rate limits.
+-- Only the service role touches them, so RLS is enabled without policies.
+create table if not exists public.rate_limit_buckets (
+    key text primary key,
+    tokens double precision not null,
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists rate_limit_buckets_updated_at_idx on public.rate_limit_buckets (updated_at);
+
+alter table public.rate_limit_buckets enable row level security;
+
+-- Refill the bucket for the time since its last use, then take one token.
+-- The upsert locks the row, so concurrent calls for one key are serialized.
+create or replace function public.consume_rate_limit(
+    p_key text,
+    p_capacity double precision,
+    p_refill_per_second double precision
+)
+returns table (allowed boolean, remaining double precision, retry_after double precision)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_now timestamptz := clock_timestamp();
+    v_tokens double precision;
+begin
+    insert into public.rate_limit_buckets as b (key, tokens, updated_at)
+    values (p_key, p_capacity, v_now)
+    on conflict (key) do update
+        set tokens = least(
+                p_capacity,
+                b.tokens + extract(epoch from (v_now - b.updated_at)) * p_refill_per_second
+            ),
+            updated_at = v_now
+    returning b.tokens into v_tokens;
+
+    if v_tokens >= 1 then
+        update public.rate_limit_buckets set tokens = v_tokens - 1 where key = p_key;
+        return query select true, v_tokens - 1, 0::double precision;
+    else
+        return query select false, v_tokens, (1 - v_tokens) / p_refill_per_second;
+    end if;
+end;
+$$;
+
+revoke all on function public.consume_rate_limit(text, double precision, double precision)
+    from public, anon, authenticated;
@@ -0,0 +1,23 @@
+-- Expired edge_cache rows are never read again (the store treats them as
+-- misses), so delete them instead of letting the table grow. Runs hourly
+-- through pg_cron; edge_cache_stale_until_idx keeps the delete cheap.
+create extension if not exists pg_cron with schema extensions;
+
+create or replace function public.purge_edge_cache()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_deleted integer;
+begin
+    delete from public.edge_cache where stale_until < now();
+    get diagnostics v_deleted = row_count;
+    return v_deleted;
+end;
+$$;
+
+revoke all on function public.purge_edge_cache() from public, anon, authenticated;
+
+select cron.schedule('purge-edge-cache', '17 * * * *', 'select public.purge_edge_cache()');
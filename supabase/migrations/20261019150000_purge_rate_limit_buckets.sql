@@ -0,0 +1,25 @@
+-- A bucket left idle for a full refill is back at capacity, which is exactly
+-- what consume_rate_limit starts a missing key at, so such rows can go. The
+-- default limits refill within a minute; an hour leaves room for stricter
+-- per-function limits. Runs hourly through pg_cron;
+-- rate_limit_buckets_updated_at_idx keeps the delete cheap.
+create extension if not exists pg_cron with schema extensions;
+
+create or replace function public.purge_rate_limit_buckets()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_deleted integer;
+begin
+    delete from public.rate_limit_buckets where updated_at < now() - interval '1 hour';
+    get diagnostics v_deleted = row_count;
+    return v_deleted;
+end;
+$$;
+
+revoke all on function public.purge_rate_limit_buckets() from public, anon, authenticated;
+
+select cron.schedule('purge-rate-limit-buckets', '47 * * * *', 'select public.purge_rate_limit_buckets()');